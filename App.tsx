@@ -1,13 +1,72 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { transcribeAudio, analyzeTextMetrics, WordMetrics } from './services/geminiService';
-
-// --- Type Definitions ---
-interface Session {
-    id: string;
-    name: string;
-    text: string;
-    date: string;
+import { createProvider, DEFAULT_PROVIDER_SETTINGS, PROVIDER_OPTIONS, ProviderSettings, TranscribeOptions, TranscriptInsights, TranscriptionProvider, TranscriptSegment, WordMetrics } from './services/transcriptionProvider';
+import { toSrt, toTimedJson, toWebVtt } from './services/subtitleExport';
+import { DocumentMetadata, toDocx, toMarkdown, toPdf } from './services/documentExport';
+import { ChunkState, DEFAULT_CHUNK_OPTIONS, mapWithConcurrency, offsetSegments, splitAudio, stitchChunks, transcribeRecording } from './services/chunkedTranscription';
+import { createJobQueue, JobQueueOptions, JobStatus, TranscriptionJob } from './services/jobQueue';
+import { describeError } from './services/providerErrors';
+import { appendRevision, revisionLabel, revisionText } from './services/revisions';
+import { applyRedactions, CATEGORY_LABELS, detectPersonalData, locateEntities, MaskStyle, mergeMatches, RedactionMatch } from './services/redaction';
+import { countChangedWords, DiffKind, diffWords } from './services/textDiff';
+import { exportLibraryArchive, findImportConflicts, ImportConflicts, ImportMode, LibraryArchive, mergeLibrary, NameClashAction, readLibraryArchive } from './services/libraryArchive';
+import { addTags, applyLibraryView, DateFilter, DEFAULT_LIBRARY_VIEW, LengthFilter, LibraryView, listFolders, listLanguages, listTags, parseTags, removeTag, SessionSortKey, sessionsToMarkdown, uniqueSessionName } from './services/library';
+import { LiveTranscription, startLiveTranscription } from './services/liveTranscription';
+import { ACCEPTED_FILE_TYPES, audioExtension, detectMediaType, extractAudioTrack, extractRegion, getMediaDuration, MAX_AUDIO_FILE_BYTES, MAX_VIDEO_FILE_BYTES, validateMediaFile } from './services/audioFile';
+import { collectSpeakers, findSegmentIndexAt, findUncertainWords, formatTimestamp, isTimed, replaceSegmentsInRange, segmentIndicesInRange, speakerName, SpeakerMap, summarizeLanguages, textToSegments, timeAtOffset, transcriptToText, UncertainWord } from './services/transcript';
+import { AudioRegion, computeWaveform, Waveform } from './services/waveform';
+import { InputLevel, listInputDevices, startLevelMeter } from './services/levelMeter';
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions, PreprocessResult, preprocessAudio, remapSegments, TimeMapPiece } from './services/audioPreprocess';
+
+import { deleteSessions, getAudio, listSessions, migrateLegacySessions, putAudio, putSessions } from './services/sessionStore';
+import { createSearchIndex, SearchHighlight, SearchResult } from './services/searchIndex';
+import { computeTextStats } from './services/textStats';
+import { applyReplacements, createGlossary, DEFAULT_GLOSSARY_SETTINGS, exportGlossary, Glossary, GlossarySettings, GlossaryTerm, parseGlossary, ReplacementRule } from './services/glossary';
+import { Revision, Session, Translation } from './types';
+
+// Custom hook to keep saved sessions in IndexedDB. It exposes the same setter as
+// useState and, on every update, writes only the sessions whose objects changed.
+// The third value describes a storage failure, so the UI can warn that saves won't survive a reload.
+function useSessionStore(): [Session[], React.Dispatch<React.SetStateAction<Session[]>>, string | null] {
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [isLoaded, setIsLoaded] = useState<boolean>(false);
+    const [storageError, setStorageError] = useState<string | null>(null);
+    const persistedRef = useRef<Map<string, Session>>(new Map());
+
+    useEffect(() => {
+        let cancelled = false;
+        migrateLegacySessions()
+            .catch(error => console.error("Error migrating sessions from localStorage:", error))
+            .then(() => listSessions())
+            .then(loaded => {
+                if (cancelled) return;
+                persistedRef.current = new Map(loaded.map(session => [session.id, session]));
+                // Keep anything saved while the database was still opening.
+                setSessions(prev => [...prev, ...loaded.filter(session => !prev.some(p => p.id === session.id))]);
+            })
+            .catch(error => {
+                console.error("Error reading sessions from IndexedDB:", error);
+                if (!cancelled) setStorageError("Saved sessions could not be loaded from this browser's storage, which may be unavailable in private browsing or when the disk is full. New sessions are still saved if possible.");
+            })
+            // Persist new sessions either way: writes only touch sessions saved in this visit, so nothing unread is overwritten.
+            .finally(() => { if (!cancelled) setIsLoaded(true); });
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        if (!isLoaded) return;
+        const previous = persistedRef.current;
+        const changed = sessions.filter(session => previous.get(session.id) !== session);
+        const removedIds = [...previous.keys()].filter(id => !sessions.some(session => session.id === id));
+        persistedRef.current = new Map(sessions.map(session => [session.id, session]));
+        putSessions(changed).catch(error => {
+            console.error("Error saving sessions to IndexedDB:", error);
+            setStorageError("Sessions could not be saved to this browser's storage and will be lost when the page is closed. Back up the library or export the transcript to keep it.");
+        });
+        deleteSessions(removedIds).catch(error => console.error("Error deleting sessions from IndexedDB:", error));
+    }, [sessions, isLoaded]);
+
+    return [sessions, setSessions, storageError];
 }
 
 // Custom hook to manage state in localStorage
@@ -50,6 +109,13 @@ const StopIcon = () => (
   </svg>
 );
 
+const PauseIcon = () => (
+  <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
+    <rect x="6" y="5" width="3" height="10" rx="1" />
+    <rect x="11" y="5" width="3" height="10" rx="1" />
+  </svg>
+);
+
 const CopyIcon = () => (
   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
@@ -103,21 +169,45 @@ const MetricsIcon = () => (
     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 12h16M4 18h7"></path></svg>
 );
 
+const TranslateIcon = () => (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129"></path></svg>
+);
+
+const InsightsIcon = () => (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"></path></svg>
+);
+
+const HistoryIcon = () => (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+);
+
+const RedactIcon = () => (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"></path></svg>
+);
+
 const DownloadIcon = () => (
     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg>
 );
 
+const UploadIcon = () => (
+    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"></path></svg>
+);
+
 const HelpIcon = () => (
     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.79 4 4 0 .863-.27 1.66-.744 2.26l-1.06 1.06c-.3.3-.444.75-.444 1.2v.25m-3.772 4.75h.01M12 19h.01"></path><circle cx="12" cy="12" r="10"></circle></svg>
 );
 
+const SettingsIcon = () => (
+    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
+);
+
 const CloseIcon = () => (
     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
 );
 
 
 // --- Child Components ---
-const MetricItem = ({ label, value }: { label: string; value: number }) => (
+const MetricItem = ({ label, value }: { label: string; value: number | string }) => (
     <div className="flex flex-col p-2 bg-white dark:bg-gray-800 rounded-lg shadow-md">
         <span className="text-2xl font-bold text-purple-600 dark:text-purple-400">{value}</span>
         <span className="text-sm text-gray-500 dark:text-gray-400">{label}</span>
@@ -147,39 +237,57 @@ const HelpModal = ({ onClose }: { onClose: () => void }) => (
             </h2>
             <div className="space-y-4 text-gray-700 dark:text-gray-300">
                 <div>
-                    <h3 className="font-semibold text-lg mb-1">1. Select Language</h3>
-                    <p>Choose your desired output language from the dropdown menu before transcribing.</p>
+                    <h3 className="font-semibold text-lg mb-1">1. Spoken Language</h3>
+                    <p>Pick the language of the recording, or leave it on <strong>Auto-detect</strong>. The detected language and how confident the AI is are shown above the transcript, with an option to transcribe again in another language if it looks wrong. In mixed-language recordings each segment is tagged with its own language. Audio is always transcribed in the language that is spoken. To read it in another language, open <span className="font-bold text-teal-500">Translations</span> (translate icon) after transcribing. The original and the translation are shown side by side, line for line, and a session can keep several translations.</p>
                 </div>
                 <div>
                     <h3 className="font-semibold text-lg mb-1">2. Record Audio</h3>
-                    <p>Click the <span className="font-bold text-blue-500">Record</span> button to start recording using your microphone. The button will turn red to indicate it's active, and a timer will show the recording duration.</p>
+                    <p>Click the <span className="font-bold text-blue-500">Record</span> button to start recording using your microphone. The button will turn red to indicate it's active, and a timer will show the recording duration. Pick the microphone to use first if you have more than one; the level meter warns you if the input is clipping or silent. You can pause and resume, and optionally set a maximum length after which recording stops by itself.</p>
+                </div>
+                <div>
+                    <h3 className="font-semibold text-lg mb-1">2b. Or Upload a File</h3>
+                    <p>Drag an existing recording onto the upload area, or click it to browse. MP3, WAV, M4A, OGG, WebM and FLAC files are supported, and the audio track is extracted from MP4 videos.</p>
+                </div>
+                <div>
+                    <h3 className="font-semibold text-lg mb-1">2c. Live Transcription</h3>
+                    <p>Turn on <strong>Live transcription</strong> before recording to see text appear every few seconds while you speak. When you stop, the whole recording is transcribed once more and replaces the live text.</p>
+                </div>
+                <div>
+                    <h3 className="font-semibold text-lg mb-1">2d. Batch Queue</h3>
+                    <p>Drop a whole folder's worth of recordings onto the <strong>Batch Queue</strong>. They are transcribed in the background, a few at a time, and each one is saved as a session when it's done, so you can keep working meanwhile. Jobs slowed down by the provider's rate limit retry automatically; failed jobs can be retried from the list.</p>
                 </div>
                 <div>
                     <h3 className="font-semibold text-lg mb-1">3. Stop Recording</h3>
-                    <p>Click the <span className="font-bold text-red-500">Stop</span> button when you're finished. An audio player will appear, allowing you to preview your recording.</p>
+                    <p>Click the <span className="font-bold text-red-500">Stop</span> button when you're finished. A waveform and audio player will appear, allowing you to preview your recording. Click the waveform to jump to a point, or drag across it to select a region you can play, trim the recording to, or transcribe again on its own.</p>
                 </div>
                 <div>
                     <h3 className="font-semibold text-lg mb-1">4. Transcribe</h3>
-                    <p>Click the <span className="font-bold text-purple-500">Transcribe</span> button. The AI will process the audio and display the text in the text area below.</p>
+                    <p>Click the <span className="font-bold text-purple-500">Transcribe</span> button. The AI will process the audio and display the transcript below as timestamped segments. Click a segment to jump the audio player to that moment, or edit its text in place. Long recordings are split into overlapping parts with a progress bar, and any part that fails can be retried on its own. Turn on <strong>Clean up audio before upload</strong> to trim silence, shorten long pauses and normalize the volume first; the app shows how much shorter and smaller the upload became, and timestamps still match the original recording. Uncompressed files such as WAV shrink the most. Enable <strong>Identify speakers</strong> before transcribing to label each segment with its speaker, then give the speakers real names in the Speakers table.</p>
                 </div>
                 <div>
                     <h3 className="font-semibold text-lg mb-1">5. Manage & Analyze</h3>
                     <ul className="list-disc list-inside space-y-1 pl-2">
                         <li><strong className="text-purple-500">Copy:</strong> Copies the transcribed text to your clipboard.</li>
                         <li><strong className="text-yellow-500">Clear:</strong> Clears the text area.</li>
-                        <li><strong className="text-green-500">Download:</strong> Saves the transcription as a .txt file.</li>
+                        <li><strong className="text-green-500">Export:</strong> Saves the transcription as plain text, a Markdown, Word or PDF document with a session summary header, SRT or WebVTT subtitles, or timed JSON. Everything is generated in your browser.</li>
                         <li><strong className="text-blue-500">Share:</strong> Share the text or audio file using your device's native share function.</li>
-                        <li><strong className="text-gray-500">Metrics:</strong> View detailed analytics about the text, including word count and part-of-speech distribution.</li>
+                        <li><strong className="text-gray-500">Metrics:</strong> Word, sentence and paragraph counts, reading time, speaking rate, filler words and vocabulary diversity are calculated on your device and update as you edit. The part-of-speech distribution and profanity count come from the AI model.</li>
+                        <li><strong className="text-gray-500">Glossary:</strong> In Settings, create a glossary for your team with the preferred spelling of names, products and acronyms, plus optional "sounds like" hints. The active glossary is sent with every transcription, and its find-and-replace rules fix up the result. Export a glossary as JSON to share it with teammates, who can import it.</li>
+                        <li><strong className="text-amber-500">Insights:</strong> Generate a short summary, key points, action items with owners and due dates, and decisions. Insights are saved with the session.</li>
+                        <li><strong className="text-indigo-500">History:</strong> Every transcription and every saved edit is kept as a revision. Compare any two revisions word by word to see exactly what the AI wrote and what was changed, and restore an older one if needed. Use <strong>Update Session</strong> to save changes to a loaded session.</li>
+                        <li><strong className="text-amber-500">Uncertain words:</strong> Words the model was unsure about are highlighted. Move the slider to choose the confidence below which a word is flagged, and use <strong>Next uncertain</strong> to jump to each one: the word is selected for editing and the audio plays from just before it. Correcting a word clears its highlight; <strong>Mark as correct</strong> clears it without a change.</li>
+                        <li><strong className="text-red-500">Redact:</strong> Finds emails, phone numbers, card numbers and ID numbers on your device, and optionally names and addresses with the AI model. Review the matches, choose how they are masked (<code>[EMAIL]</code> or <code>***</code>), then save a redacted copy as a new session, download it or share it. The original transcript is left as it is.</li>
                     </ul>
                 </div>
                 <div>
                     <h3 className="font-semibold text-lg mb-1">6. Save & Load Sessions</h3>
-                    <p>Type a name in the "session name" field and click <span className="font-bold text-green-600">Save Session</span> to store your transcription. You can load, rename, or delete saved sessions from the list below.</p>
+                    <p>Type a name in the "session name" field and click <span className="font-bold text-green-600">Save Session</span> to store your transcription together with its audio, metrics and settings. Loading a session restores playback, so you can re-transcribe it or add translations. You can load, rename, or delete saved sessions from the list below, or search them by name, tag or transcript text. Opening a search result jumps to the matching passage. Filter the list by folder, tag, language, length or date and sort it by date, name, length or language. Tick sessions to move them into a folder, tag them, export them as one Markdown file or delete them together. New sessions are saved into the folder you are viewing. Use <strong>Back up library</strong> to download every session and recording as a zip file, and <strong>Restore backup</strong> to load one on this or another computer, either merged into your library or replacing it.</p>
                 </div>
                 <div>
                     <h3 className="font-semibold text-lg mb-1">7. Keyboard Shortcuts</h3>
                     <ul className="list-disc list-inside space-y-2 pl-2">
                         <li>Press <kbd className="font-mono py-0.5 px-1.5 bg-gray-200 dark:bg-gray-700 rounded-md text-sm">R</kbd> to Start/Stop Recording.</li>
+                        <li>Press <kbd className="font-mono py-0.5 px-1.5 bg-gray-200 dark:bg-gray-700 rounded-md text-sm">P</kbd> to Pause/Resume Recording.</li>
                         <li>Press <kbd className="font-mono py-0.5 px-1.5 bg-gray-200 dark:bg-gray-700 rounded-md text-sm">T</kbd> to Transcribe audio.</li>
                         <li>Press <kbd className="font-mono py-0.5 px-1.5 bg-gray-200 dark:bg-gray-700 rounded-md text-sm">C</kbd> to Copy transcribed text.</li>
                         <li>Press <kbd className="font-mono py-0.5 px-1.5 bg-gray-200 dark:bg-gray-700 rounded-md text-sm">S</kbd> to Share transcribed text.</li>
@@ -191,9 +299,1186 @@ const HelpModal = ({ onClose }: { onClose: () => void }) => (
     </div>
 );
 
+const GlossaryEditor = ({ settings, onChange, onExport, onImport }: {
+    settings: GlossarySettings;
+    onChange: (settings: GlossarySettings) => void;
+    onExport: (glossary: Glossary) => void;
+    onImport: (file: File) => void;
+}) => {
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const active = settings.glossaries.find(glossary => glossary.id === settings.activeGlossaryId) ?? null;
+    const inputClassName = "min-w-0 p-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+    const updateActive = (changes: Partial<Glossary>) => onChange({
+        ...settings,
+        glossaries: settings.glossaries.map(glossary => (glossary.id === active?.id ? { ...glossary, ...changes } : glossary)),
+    });
+    const updateTerm = (index: number, changes: Partial<GlossaryTerm>) =>
+        active && updateActive({ terms: active.terms.map((term, i) => (i === index ? { ...term, ...changes } : term)) });
+    const updateRule = (index: number, changes: Partial<ReplacementRule>) =>
+        active && updateActive({ replacements: active.replacements.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)) });
+
+    const handleCreate = () => {
+        const glossary = createGlossary(`Glossary ${settings.glossaries.length + 1}`);
+        onChange({ glossaries: [...settings.glossaries, glossary], activeGlossaryId: glossary.id });
+    };
+
+    const handleDelete = () => {
+        if (!active || !window.confirm(`Delete the glossary "${active.name}"?`)) return;
+        onChange({ glossaries: settings.glossaries.filter(glossary => glossary.id !== active.id), activeGlossaryId: null });
+    };
+
+    return (
+        <fieldset className="space-y-3">
+            <legend className="font-semibold text-lg mb-1">Glossary</legend>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+                Terms in the active glossary are sent with every transcription so names and jargon are spelled your way. Replacement rules are applied to the transcript afterwards.
+            </p>
+            <div className="flex flex-wrap gap-2">
+                <select
+                    value={settings.activeGlossaryId ?? ''}
+                    onChange={(e) => onChange({ ...settings, activeGlossaryId: e.target.value || null })}
+                    className={`flex-grow ${inputClassName}`}
+                    aria-label="Active glossary"
+                >
+                    <option value="">None</option>
+                    {settings.glossaries.map(glossary => <option key={glossary.id} value={glossary.id}>{glossary.name}</option>)}
+                </select>
+                <button onClick={handleCreate} className="px-3 py-2 text-sm rounded-md font-medium text-white bg-purple-600 hover:bg-purple-700">New</button>
+                <button onClick={() => importInputRef.current?.click()} className="px-3 py-2 text-sm rounded-md font-medium bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600">Import</button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onImport(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+            {active && (
+                <div className="space-y-4 p-3 rounded-lg bg-gray-100 dark:bg-gray-900/50">
+                    <div className="flex flex-wrap gap-2">
+                        <input
+                            type="text"
+                            value={active.name}
+                            onChange={(e) => updateActive({ name: e.target.value })}
+                            className={`flex-grow ${inputClassName}`}
+                            aria-label="Glossary name"
+                        />
+                        <button onClick={() => onExport(active)} className="px-3 py-2 text-sm rounded-md font-medium text-green-700 dark:text-green-400 bg-green-100 dark:bg-green-900/50 hover:bg-green-200 dark:hover:bg-green-900">Export JSON</button>
+                        <button onClick={handleDelete} title="Delete glossary" className="p-2 text-red-500 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full"><DeleteIcon /></button>
+                    </div>
+
+                    <div className="space-y-2">
+                        <h4 className="text-sm font-semibold text-gray-600 dark:text-gray-400">Terms</h4>
+                        {active.terms.map((term, index) => (
+                            <div key={index} className="flex gap-2 items-center">
+                                <input type="text" value={term.term} onChange={(e) => updateTerm(index, { term: e.target.value })} placeholder="Preferred spelling" aria-label={`Term ${index + 1}`} className={`flex-1 ${inputClassName}`} />
+                                <input type="text" value={term.soundsLike ?? ''} onChange={(e) => updateTerm(index, { soundsLike: e.target.value || undefined })} placeholder="Sounds like (optional)" aria-label={`Pronunciation of term ${index + 1}`} className={`flex-1 ${inputClassName}`} />
+                                <button onClick={() => updateActive({ terms: active.terms.filter((_, i) => i !== index) })} title="Remove term" className="p-2 text-gray-500 hover:text-red-500">×</button>
+                            </div>
+                        ))}
+                        <button onClick={() => updateActive({ terms: [...active.terms, { term: '' }] })} className="text-sm font-medium text-purple-600 dark:text-purple-400 hover:underline">+ Add term</button>
+                    </div>
+
+                    <div className="space-y-2">
+                        <h4 className="text-sm font-semibold text-gray-600 dark:text-gray-400">Replacement rules</h4>
+                        {active.replacements.map((rule, index) => (
+                            <div key={index} className="space-y-1">
+                                <div className="flex gap-2 items-center">
+                                    <input type="text" value={rule.find} onChange={(e) => updateRule(index, { find: e.target.value })} placeholder="Find" aria-label={`Find text for rule ${index + 1}`} className={`flex-1 ${inputClassName}`} />
+                                    <input type="text" value={rule.replace} onChange={(e) => updateRule(index, { replace: e.target.value })} placeholder="Replace with" aria-label={`Replacement for rule ${index + 1}`} className={`flex-1 ${inputClassName}`} />
+                                    <button onClick={() => updateActive({ replacements: active.replacements.filter((_, i) => i !== index) })} title="Remove rule" className="p-2 text-gray-500 hover:text-red-500">×</button>
+                                </div>
+                                <div className="flex gap-4 text-sm text-gray-600 dark:text-gray-400">
+                                    <label className="flex items-center gap-1 cursor-pointer">
+                                        <input type="checkbox" checked={rule.wholeWord} onChange={(e) => updateRule(index, { wholeWord: e.target.checked })} className="accent-purple-600" /> Whole word
+                                    </label>
+                                    <label className="flex items-center gap-1 cursor-pointer">
+                                        <input type="checkbox" checked={rule.matchCase} onChange={(e) => updateRule(index, { matchCase: e.target.checked })} className="accent-purple-600" /> Match case
+                                    </label>
+                                </div>
+                            </div>
+                        ))}
+                        <button onClick={() => updateActive({ replacements: [...active.replacements, { find: '', replace: '', wholeWord: true, matchCase: false }] })} className="text-sm font-medium text-purple-600 dark:text-purple-400 hover:underline">+ Add rule</button>
+                    </div>
+                </div>
+            )}
+        </fieldset>
+    );
+};
+
+const SettingsModal = ({ settings, onChange, glossarySettings, onGlossarySettingsChange, onExportGlossary, onImportGlossary, onClose }: {
+    settings: ProviderSettings;
+    onChange: (settings: ProviderSettings) => void;
+    glossarySettings: GlossarySettings;
+    onGlossarySettingsChange: (settings: GlossarySettings) => void;
+    onExportGlossary: (glossary: Glossary) => void;
+    onImportGlossary: (file: File) => void;
+    onClose: () => void;
+}) => (
+    <div 
+        className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-4 z-50 animate-fadeIn"
+        onClick={onClose}
+        aria-modal="true"
+        role="dialog"
+    >
+        <div 
+            className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 sm:p-8 relative animate-scaleIn"
+            onClick={(e) => e.stopPropagation()}
+        >
+            <button 
+                onClick={onClose} 
+                className="absolute top-4 right-4 p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-500"
+                aria-label="Close settings"
+            >
+                <CloseIcon />
+            </button>
+            <h2 className="text-2xl sm:text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-500 to-pink-600 mb-6">
+                Settings
+            </h2>
+            <div className="space-y-4 text-gray-700 dark:text-gray-300">
+                <fieldset className="space-y-2">
+                    <legend className="font-semibold text-lg mb-1">Transcription Provider</legend>
+                    {PROVIDER_OPTIONS.map(option => (
+                        <label key={option.id} className="flex items-start gap-3 p-3 rounded-lg bg-gray-100 dark:bg-gray-900/50 cursor-pointer">
+                            <input
+                                type="radio"
+                                name="provider"
+                                value={option.id}
+                                checked={settings.providerId === option.id}
+                                onChange={() => onChange({ ...settings, providerId: option.id })}
+                                className="mt-1 accent-purple-600"
+                            />
+                            <span>
+                                <span className="font-semibold">{option.name}</span>
+                                <span className="block text-sm text-gray-500 dark:text-gray-400">{option.description}</span>
+                            </span>
+                        </label>
+                    ))}
+                </fieldset>
+                {settings.providerId === 'local-http' && (
+                    <div className="space-y-1">
+                        <label htmlFor="local-endpoint" className="font-semibold">Local server URL</label>
+                        <input
+                            id="local-endpoint"
+                            type="url"
+                            value={settings.localEndpoint}
+                            onChange={(e) => onChange({ ...settings, localEndpoint: e.target.value })}
+                            className="w-full p-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                    </div>
+                )}
+                <GlossaryEditor settings={glossarySettings} onChange={onGlossarySettingsChange} onExport={onExportGlossary} onImport={onImportGlossary} />
+            </div>
+        </div>
+    </div>
+);
+
+const CHUNK_STATUS_COLORS: Record<ChunkState['status'], string> = {
+    pending: 'bg-gray-300 dark:bg-gray-600',
+    running: 'bg-purple-400 animate-pulse',
+    done: 'bg-green-500',
+    failed: 'bg-red-500',
+};
+
+const ChunkProgress = ({ chunks, onRetry, disabled }: { chunks: ChunkState[]; onRetry: (indices: number[]) => void; disabled: boolean }) => {
+    const done = chunks.filter(chunk => chunk.status === 'done').length;
+    const failed = chunks.filter(chunk => chunk.status === 'failed');
+    return (
+        <div className="space-y-2 bg-gray-100 dark:bg-gray-900/50 p-4 rounded-lg">
+            <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+                <span>Transcribing in {chunks.length} parts</span>
+                <span>{done} / {chunks.length} done</span>
+            </div>
+            <div className="flex gap-1" role="progressbar" aria-valuemin={0} aria-valuemax={chunks.length} aria-valuenow={done}>
+                {chunks.map(chunk => (
+                    <div
+                        key={chunk.index}
+                        title={`Part ${chunk.index + 1} (${formatTimestamp(chunk.start)}–${formatTimestamp(chunk.end)}): ${chunk.status}${chunk.error ? ` – ${chunk.error}` : ''}`}
+                        className={`h-2 flex-1 rounded-full ${CHUNK_STATUS_COLORS[chunk.status]}`}
+                    />
+                ))}
+            </div>
+            {failed.length > 0 && (
+                <div className="space-y-1 pt-1">
+                    {failed.map(chunk => (
+                        <div key={chunk.index} className="flex justify-between items-center gap-2 text-sm">
+                            <span className="text-red-600 dark:text-red-400 truncate" title={chunk.error}>
+                                Part {chunk.index + 1} ({formatTimestamp(chunk.start)}–{formatTimestamp(chunk.end)}) failed
+                            </span>
+                            <button onClick={() => onRetry([chunk.index])} disabled={disabled} className="flex-shrink-0 px-3 py-1 rounded-md font-medium text-purple-600 dark:text-purple-300 bg-purple-100 dark:bg-purple-900/50 hover:bg-purple-200 dark:hover:bg-purple-900 disabled:opacity-50">
+                                Retry
+                            </button>
+                        </div>
+                    ))}
+                    {failed.length > 1 && (
+                        <button onClick={() => onRetry(failed.map(chunk => chunk.index))} disabled={disabled} className="w-full px-3 py-1 text-sm rounded-md font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50">
+                            Retry all failed parts
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const JOB_STATUS_STYLES: Record<JobStatus, string> = {
+    queued: 'text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700',
+    running: 'text-purple-700 dark:text-purple-300 bg-purple-100 dark:bg-purple-900/50 animate-pulse',
+    done: 'text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/50',
+    failed: 'text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900/50',
+};
+
+const BATCH_CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const JobQueuePanel = ({ jobs, concurrency, onConcurrencyChange, onAddFiles, onAddCurrent, onRetry, onRemove, onClearFinished, onOpen }: {
+    jobs: TranscriptionJob[];
+    concurrency: number;
+    onConcurrencyChange: (concurrency: number) => void;
+    onAddFiles: (files: File[]) => void;
+    // Null when there is no recording to add.
+    onAddCurrent: (() => void) | null;
+    onRetry: (id: string) => void;
+    onRemove: (id: string) => void;
+    onClearFinished: () => void;
+    onOpen: (sessionId: string) => void;
+}) => {
+    const inputRef = useRef<HTMLInputElement | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const done = jobs.filter(job => job.status === 'done').length;
+    const failed = jobs.filter(job => job.status === 'failed').length;
+    return (
+        <div className="space-y-3 bg-gray-100 dark:bg-gray-900/50 p-4 rounded-lg">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <h3 className="font-semibold text-gray-700 dark:text-gray-300">Batch Queue</h3>
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    Run at once
+                    <select value={concurrency} onChange={(e) => onConcurrencyChange(Number(e.target.value))} className="p-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500">
+                        {BATCH_CONCURRENCY_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                </label>
+            </div>
+            <div
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={(e) => { e.preventDefault(); setIsDragging(false); onAddFiles([...e.dataTransfer.files]); }}
+                onClick={() => inputRef.current?.click()}
+                role="button"
+                tabIndex={0}
+                onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') inputRef.current?.click(); }}
+                className={`p-3 rounded-lg border-2 border-dashed cursor-pointer text-center text-sm transition-colors ${isDragging ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/30' : 'border-gray-300 dark:border-gray-600 hover:border-purple-400'} text-gray-600 dark:text-gray-400`}
+            >
+                Drop any number of recordings here, or click to choose them. Each one is saved as a session when it finishes.
+                <input ref={inputRef} type="file" multiple accept={ACCEPTED_FILE_TYPES} onChange={(e) => { onAddFiles([...(e.target.files ?? [])]); e.target.value = ''; }} className="hidden" />
+            </div>
+            {onAddCurrent && (
+                <button onClick={onAddCurrent} className="w-full px-3 py-1 text-sm rounded-md font-medium text-purple-600 dark:text-purple-300 bg-purple-100 dark:bg-purple-900/50 hover:bg-purple-200 dark:hover:bg-purple-900">
+                    Add current recording to the queue
+                </button>
+            )}
+            {jobs.length > 0 && (
+                <>
+                    <div className="flex justify-between items-center text-sm text-gray-600 dark:text-gray-400">
+                        <span>{done} / {jobs.length} done{failed > 0 && `, ${failed} failed`}</span>
+                        {done > 0 && <button onClick={onClearFinished} className="text-purple-600 dark:text-purple-300 hover:underline">Clear finished</button>}
+                    </div>
+                    <ul className="max-h-60 overflow-y-auto space-y-2 pr-2">
+                        {jobs.map(job => (
+                            <li key={job.id} className="bg-white dark:bg-gray-800 p-2 rounded-md space-y-1">
+                                <div className="flex items-center gap-2">
+                                    <span className="flex-grow truncate text-sm font-medium text-gray-800 dark:text-gray-200" title={job.file.name}>{job.name}</span>
+                                    <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold ${JOB_STATUS_STYLES[job.status]}`}>
+                                        {job.status === 'running' && job.progress > 0 ? `running ${Math.round(job.progress * 100)}%` : job.status}
+                                    </span>
+                                    {job.status === 'done' && job.sessionId && (
+                                        <button onClick={() => onOpen(job.sessionId!)} title="Load Session" className="p-1 text-blue-500 dark:text-blue-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full transition-colors"><LoadIcon /></button>
+                                    )}
+                                    {(job.status === 'failed' || (job.status === 'queued' && job.retryAt)) && (
+                                        <button onClick={() => onRetry(job.id)} className="px-2 py-0.5 text-xs rounded-md font-medium text-purple-600 dark:text-purple-300 bg-purple-100 dark:bg-purple-900/50 hover:bg-purple-200 dark:hover:bg-purple-900">
+                                            {job.status === 'failed' ? 'Retry' : 'Retry now'}
+                                        </button>
+                                    )}
+                                    {job.status !== 'running' && (
+                                        <button onClick={() => onRemove(job.id)} title="Remove from queue" className="p-1 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full transition-colors"><ClearIcon /></button>
+                                    )}
+                                </div>
+                                {job.error && job.status !== 'done' && (
+                                    <p className="text-xs text-red-600 dark:text-red-400 truncate" title={job.error}>
+                                        {job.status === 'queued' && job.retryAt
+                                            ? `Rate limited, retrying at ${new Date(job.retryAt).toLocaleTimeString()} (attempt ${job.attempts + 1})`
+                                            : job.error}
+                                    </p>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
+
+const compactInputClassName = 'p-1 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const SORT_OPTIONS: { key: SessionSortKey; label: string }[] = [
+    { key: 'date', label: 'Date' },
+    { key: 'name', label: 'Name' },
+    { key: 'duration', label: 'Length' },
+    { key: 'language', label: 'Language' },
+];
+
+// Option values for the folder filter; anything else is a folder name.
+const ALL_FOLDERS = '*';
+
+const LibraryFilters = ({ view, onChange, folders, tags, languages }: {
+    view: LibraryView;
+    onChange: (view: LibraryView) => void;
+    folders: string[];
+    tags: string[];
+    languages: string[];
+}) => {
+    const update = (patch: Partial<LibraryView>) => onChange({ ...view, ...patch });
+    const isFiltered = view.folder !== null || view.tag !== null || view.language !== null || view.length !== 'any' || view.since !== 'any';
+    return (
+        <div className="flex flex-wrap gap-2 items-center pt-2">
+            <select value={view.folder ?? ALL_FOLDERS} onChange={(e) => update({ folder: e.target.value === ALL_FOLDERS ? null : e.target.value })} aria-label="Folder" className={compactInputClassName}>
+                <option value={ALL_FOLDERS}>All folders</option>
+                <option value="">No folder</option>
+                {folders.map(folder => <option key={folder} value={folder}>{folder}</option>)}
+            </select>
+            <select value={view.tag ?? ''} onChange={(e) => update({ tag: e.target.value || null })} aria-label="Tag" className={compactInputClassName}>
+                <option value="">Any tag</option>
+                {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+            <select value={view.language ?? ''} onChange={(e) => update({ language: e.target.value || null })} aria-label="Language" className={compactInputClassName}>
+                <option value="">Any language</option>
+                {languages.map(language => <option key={language} value={language}>{language}</option>)}
+            </select>
+            <select value={view.length} onChange={(e) => update({ length: e.target.value as LengthFilter })} aria-label="Length" className={compactInputClassName}>
+                <option value="any">Any length</option>
+                <option value="short">Under 5 min</option>
+                <option value="medium">5–30 min</option>
+                <option value="long">Over 30 min</option>
+            </select>
+            <select value={view.since} onChange={(e) => update({ since: e.target.value as DateFilter })} aria-label="Date" className={compactInputClassName}>
+                <option value="any">Any date</option>
+                <option value="day">Last 24 hours</option>
+                <option value="week">Last 7 days</option>
+                <option value="month">Last 30 days</option>
+                <option value="year">Last year</option>
+            </select>
+            <div className="flex items-center gap-1">
+                <select value={view.sortKey} onChange={(e) => update({ sortKey: e.target.value as SessionSortKey })} aria-label="Sort by" className={compactInputClassName}>
+                    {SORT_OPTIONS.map(option => <option key={option.key} value={option.key}>Sort: {option.label}</option>)}
+                </select>
+                <button
+                    onClick={() => update({ sortAscending: !view.sortAscending })}
+                    title={view.sortAscending ? 'Ascending' : 'Descending'}
+                    aria-label={view.sortAscending ? 'Sort descending' : 'Sort ascending'}
+                    className="px-2 py-1 text-sm rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+                >
+                    {view.sortAscending ? '↑' : '↓'}
+                </button>
+            </div>
+            {isFiltered && (
+                <button onClick={() => onChange({ ...DEFAULT_LIBRARY_VIEW, sortKey: view.sortKey, sortAscending: view.sortAscending })} className="text-sm text-purple-600 dark:text-purple-300 hover:underline">
+                    Clear filters
+                </button>
+            )}
+        </div>
+    );
+};
+
+const BulkActions = ({ count, folders, onMove, onTag, onExport, onDelete, onClearSelection }: {
+    count: number;
+    folders: string[];
+    // '' moves the sessions out of their folder.
+    onMove: (folder: string) => void;
+    onTag: (tags: string[]) => void;
+    onExport: () => void;
+    onDelete: () => void;
+    onClearSelection: () => void;
+}) => {
+    const [folder, setFolder] = useState('');
+    const [tagInput, setTagInput] = useState('');
+    const tags = parseTags(tagInput);
+    return (
+        <div className="flex flex-wrap gap-2 items-center bg-purple-50 dark:bg-purple-900/30 p-2 rounded-lg text-sm">
+            <span className="font-semibold text-purple-700 dark:text-purple-300">{count} selected</span>
+            <div className="flex items-center gap-1">
+                <input
+                    type="text"
+                    list="library-folders"
+                    value={folder}
+                    onChange={(e) => setFolder(e.target.value)}
+                    placeholder="Folder"
+                    aria-label="Move to folder"
+                    className={`w-28 ${compactInputClassName}`}
+                />
+                <datalist id="library-folders">
+                    {folders.map(name => <option key={name} value={name} />)}
+                </datalist>
+                <button onClick={() => { onMove(folder.trim()); setFolder(''); }} className="px-2 py-1 rounded-md font-medium text-purple-600 dark:text-purple-300 bg-purple-100 dark:bg-purple-900/50 hover:bg-purple-200 dark:hover:bg-purple-900">
+                    {folder.trim() ? 'Move' : 'Remove from folder'}
+                </button>
+            </div>
+            <div className="flex items-center gap-1">
+                <input
+                    type="text"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && tags.length > 0) { onTag(tags); setTagInput(''); } }}
+                    placeholder="tag, another tag"
+                    aria-label="Add tags"
+                    className={`w-32 ${compactInputClassName}`}
+                />
+                <button onClick={() => { onTag(tags); setTagInput(''); }} disabled={tags.length === 0} className="px-2 py-1 rounded-md font-medium text-purple-600 dark:text-purple-300 bg-purple-100 dark:bg-purple-900/50 hover:bg-purple-200 dark:hover:bg-purple-900 disabled:opacity-50">
+                    Tag
+                </button>
+            </div>
+            <button onClick={onExport} className="px-2 py-1 rounded-md font-medium text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/50 hover:bg-green-200 dark:hover:bg-green-900">Export</button>
+            <button onClick={onDelete} className="px-2 py-1 rounded-md font-medium text-red-600 dark:text-red-300 bg-red-100 dark:bg-red-900/50 hover:bg-red-200 dark:hover:bg-red-900">Delete</button>
+            <button onClick={onClearSelection} className="ml-auto text-purple-600 dark:text-purple-300 hover:underline">Clear selection</button>
+        </div>
+    );
+};
+
+const ImportLibraryModal = ({ archive, conflicts, library, onImport, onClose }: {
+    archive: LibraryArchive;
+    conflicts: ImportConflicts;
+    library: Session[];
+    onImport: (mode: ImportMode, nameClash: NameClashAction) => void;
+    onClose: () => void;
+}) => {
+    // Session names must be unique, so the user decides what happens to incoming ones that clash.
+    const [nameClash, setNameClash] = useState<NameClashAction>('rename');
+    const newCount = archive.sessions.length - conflicts.duplicateIds.length - (nameClash === 'skip' ? conflicts.duplicateNames.length : 0);
+    const librarySize = library.length;
+    const example = conflicts.duplicateNames[0]?.name;
+    return (
+        <div
+            className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-4 z-50 animate-fadeIn"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl w-full max-w-lg p-6 sm:p-8 relative animate-scaleIn space-y-4 text-gray-700 dark:text-gray-300"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-4 right-4 p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    aria-label="Close import"
+                >
+                    <CloseIcon />
+                </button>
+                <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-500 to-pink-600">Import Library Backup</h2>
+                <p>
+                    The backup from {new Date(archive.exportedAt).toLocaleString()} holds {archive.sessions.length} session{archive.sessions.length === 1 ? '' : 's'},
+                    {' '}{archive.audio.size} with audio. Your library has {librarySize}.
+                </p>
+                {conflicts.duplicateIds.length > 0 && (
+                    <p><strong>{conflicts.duplicateIds.length}</strong> {conflicts.duplicateIds.length === 1 ? 'is' : 'are'} already in your library and will be skipped when merging.</p>
+                )}
+                {conflicts.duplicateNames.length > 0 && (
+                    <fieldset className="space-y-1">
+                        <legend>
+                            <strong>{conflicts.duplicateNames.length}</strong> share{conflicts.duplicateNames.length === 1 ? 's' : ''} a name with a different session
+                            {' '}({conflicts.duplicateNames.slice(0, 3).map(session => `"${session.name}"`).join(', ')}{conflicts.duplicateNames.length > 3 && ', …'}). When merging:
+                        </legend>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="radio" name="name-clash" checked={nameClash === 'rename'} onChange={() => setNameClash('rename')} className="accent-purple-600" />
+                            Import them with a number added, e.g. "{example}" becomes "{uniqueSessionName(example, library)}"
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="radio" name="name-clash" checked={nameClash === 'skip'} onChange={() => setNameClash('skip')} className="accent-purple-600" />
+                            Skip them
+                        </label>
+                    </fieldset>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pt-2">
+                    <button onClick={() => onImport('merge', nameClash)} className="px-4 py-2 font-bold text-white bg-purple-600 rounded-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500">
+                        Merge ({newCount} new)
+                    </button>
+                    <button onClick={() => onImport('replace', nameClash)} className="px-4 py-2 font-bold text-white bg-red-600 rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500">
+                        Replace library
+                    </button>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Replacing deletes the {librarySize} session{librarySize === 1 ? '' : 's'} in this browser and their recordings. Export a backup first if you might need them.</p>
+            </div>
+        </div>
+    );
+};
+
+const MASK_STYLE_OPTIONS: { value: MaskStyle; label: string }[] = [
+    { value: 'label', label: 'Label, e.g. [EMAIL]' },
+    { value: 'asterisks', label: 'Asterisks (***)' },
+];
+
+// Characters of the segment shown either side of a match in the review list.
+const REDACTION_CONTEXT_CHARS = 30;
+
+const RedactionModal = ({ segments, speakers, provider, maskStyle, onMaskStyleChange, isSessionSaved, onSave, onDownload, onShare, onClose }: {
+    segments: TranscriptSegment[];
+    speakers: SpeakerMap;
+    provider: TranscriptionProvider;
+    maskStyle: MaskStyle;
+    onMaskStyleChange: (style: MaskStyle) => void;
+    // Whether the original is already in the library, so the copy can sit next to it.
+    isSessionSaved: boolean;
+    onSave: (segments: TranscriptSegment[], speakers: SpeakerMap) => void;
+    onDownload: (text: string) => void;
+    onShare: (text: string) => void;
+    onClose: () => void;
+}) => {
+    const patternMatches = useMemo(() => detectPersonalData(segments), [segments]);
+    const [modelMatches, setModelMatches] = useState<RedactionMatch[] | null>(null);
+    const [isDetecting, setIsDetecting] = useState<boolean>(false);
+    const [detectError, setDetectError] = useState<string | null>(null);
+    // Everything found is masked unless the user unticks it.
+    const [skippedIds, setSkippedIds] = useState<Set<string>>(new Set());
+    const [hideSpeakerNames, setHideSpeakerNames] = useState<boolean>(true);
+
+    const matches = useMemo(() => mergeMatches(patternMatches, modelMatches ?? []), [patternMatches, modelMatches]);
+    const selected = useMemo(() => matches.filter(match => !skippedIds.has(match.id)), [matches, skippedIds]);
+    // Speaker names the user typed in are personal data too; the ids are just "Speaker 1" and so on.
+    const hasSpeakerNames = Object.entries(speakers).some(([id, name]) => name.trim() && name.trim() !== id);
+    const redactedSpeakers = hideSpeakerNames ? collectSpeakers(segments) : speakers;
+    const redactedSegments = useMemo(() => applyRedactions(segments, selected, maskStyle), [segments, selected, maskStyle]);
+    const redactedText = transcriptToText(redactedSegments, redactedSpeakers);
+
+    const handleDetectEntities = async () => {
+        setIsDetecting(true);
+        setDetectError(null);
+        try {
+            const entities = await provider.detectEntities(transcriptToText(segments));
+            setModelMatches(locateEntities(segments, entities));
+        } catch (err) {
+            console.error("Entity detection error:", err);
+            setDetectError(describeError(err, "Could not detect names and addresses. Please try again."));
+        } finally {
+            setIsDetecting(false);
+        }
+    };
+
+    const toggleMatch = (id: string) => {
+        setSkippedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-4 z-50 animate-fadeIn"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 sm:p-8 relative animate-scaleIn space-y-4 text-gray-700 dark:text-gray-300"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-4 right-4 p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    aria-label="Close redaction"
+                >
+                    <CloseIcon />
+                </button>
+                <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-500 to-pink-600">Redact Personal Data</h2>
+                <p className="text-sm">
+                    Emails, phone numbers, card numbers and ID numbers are found on your device. Untick anything that should stay.
+                    {' '}The transcript on screen is not changed{isSessionSaved ? '' : '; save it as usual to keep the original'}.
+                </p>
+                <div className="flex flex-wrap items-center gap-3">
+                    <button
+                        onClick={handleDetectEntities}
+                        disabled={isDetecting || !provider.capabilities.entities}
+                        title={provider.capabilities.entities ? undefined : `The ${provider.name} provider cannot detect names and addresses`}
+                        className="px-3 py-1.5 rounded-md text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                    >
+                        {isDetecting ? 'Detecting...' : modelMatches ? 'Detect again with AI' : 'Find names and addresses with AI'}
+                    </button>
+                    <label className="flex items-center gap-2 text-sm">
+                        Mask
+                        <select
+                            value={maskStyle}
+                            onChange={(e) => onMaskStyleChange(e.target.value as MaskStyle)}
+                            className="px-2 py-1 rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        >
+                            {MASK_STYLE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                        </select>
+                    </label>
+                </div>
+                {provider.capabilities.entities && !modelMatches && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">AI detection sends the transcript to the {provider.name} provider.</p>
+                )}
+                {detectError && <p className="text-sm text-red-600 dark:text-red-400">{detectError}</p>}
+                {matches.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No personal data found{modelMatches ? '' : ' by the local detectors'}.</p>
+                ) : (
+                    <div className="max-h-64 overflow-y-auto space-y-1 border border-gray-200 dark:border-gray-700 rounded-lg p-2">
+                        <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 px-1">
+                            <span>{selected.length} of {matches.length} will be masked</span>
+                            <button onClick={() => setSkippedIds(skippedIds.size > 0 ? new Set() : new Set(matches.map(match => match.id)))} className="hover:underline">
+                                {skippedIds.size > 0 ? 'Select all' : 'Select none'}
+                            </button>
+                        </div>
+                        {matches.map(match => {
+                            const text = segments[match.segmentIndex].text;
+                            const before = text.slice(Math.max(0, match.start - REDACTION_CONTEXT_CHARS), match.start);
+                            const after = text.slice(match.end, match.end + REDACTION_CONTEXT_CHARS);
+                            return (
+                                <label key={match.id} className="flex items-start gap-2 p-1 rounded text-sm cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700">
+                                    <input type="checkbox" checked={!skippedIds.has(match.id)} onChange={() => toggleMatch(match.id)} className="mt-1 accent-purple-600" />
+                                    <span className="flex-shrink-0 w-20 mt-0.5 px-1.5 rounded text-center text-xs font-mono bg-gray-200 dark:bg-gray-700">
+                                        {CATEGORY_LABELS[match.category]}
+                                    </span>
+                                    <span className="flex-grow min-w-0 break-words">
+                                        {match.start > REDACTION_CONTEXT_CHARS && '…'}{before}
+                                        <mark className="rounded bg-red-200 dark:bg-red-900/60 text-red-900 dark:text-red-200">{match.text}</mark>
+                                        {after}{match.end + REDACTION_CONTEXT_CHARS < text.length && '…'}
+                                    </span>
+                                    {match.source === 'model' && <span className="flex-shrink-0 text-xs text-purple-600 dark:text-purple-400">AI</span>}
+                                </label>
+                            );
+                        })}
+                    </div>
+                )}
+                {hasSpeakerNames && (
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input type="checkbox" checked={hideSpeakerNames} onChange={(e) => setHideSpeakerNames(e.target.checked)} className="accent-purple-600" />
+                        Replace speaker names with their labels (Speaker 1, Speaker 2, ...)
+                    </label>
+                )}
+                <div>
+                    <h3 className="text-sm font-semibold mb-1">Preview</h3>
+                    <p className="max-h-40 overflow-y-auto whitespace-pre-wrap text-sm p-2 rounded-lg bg-gray-100 dark:bg-gray-900/50">{redactedText}</p>
+                </div>
+                <div className="flex flex-wrap gap-3 pt-2">
+                    <button onClick={() => onSave(redactedSegments, redactedSpeakers)} className="px-4 py-2 font-bold text-white bg-purple-600 rounded-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500">
+                        Save redacted copy
+                    </button>
+                    <button onClick={() => onDownload(redactedText)} className="px-4 py-2 font-medium rounded-md bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600">
+                        Download text
+                    </button>
+                    {navigator.share && (
+                        <button onClick={() => onShare(redactedText)} className="px-4 py-2 font-medium rounded-md bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600">
+                            Share
+                        </button>
+                    )}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">The redacted copy is saved without the recording, insights, translations or revision history, since those still contain the original words.</p>
+            </div>
+        </div>
+    );
+};
+
+// Value of the revision selects that stands for the transcript as it is now.
+const CURRENT_REVISION = 'current';
+
+const DIFF_STYLES: Record<DiffKind, string> = {
+    equal: '',
+    added: 'bg-green-200 dark:bg-green-900/60 text-green-900 dark:text-green-200',
+    removed: 'bg-red-200 dark:bg-red-900/60 text-red-900 dark:text-red-200 line-through',
+};
+
+const RevisionHistory = ({ revisions, currentText, onRestore }: {
+    revisions: Revision[];
+    currentText: string;
+    onRestore: (revision: Revision) => void;
+}) => {
+    // Compares the oldest revision, normally the AI's original, with the transcript on screen.
+    const [fromId, setFromId] = useState<string>(revisions[0]?.id ?? CURRENT_REVISION);
+    const [toId, setToId] = useState<string>(CURRENT_REVISION);
+    const textOf = (id: string) => {
+        const revision = revisions.find(candidate => candidate.id === id);
+        return revision ? revisionText(revision) : currentText;
+    };
+    const from = revisions.some(revision => revision.id === fromId) ? fromId : revisions[0]?.id ?? CURRENT_REVISION;
+    const to = toId === CURRENT_REVISION || revisions.some(revision => revision.id === toId) ? toId : CURRENT_REVISION;
+    const diff = useMemo(() => diffWords(textOf(from), textOf(to)), [from, to, revisions, currentText]);
+    const { added, removed } = countChangedWords(diff);
+
+    if (revisions.length === 0) {
+        return <p className="text-sm text-gray-500 dark:text-gray-400 text-center">No revisions yet. The AI's transcript and each saved edit will appear here.</p>;
+    }
+    const options = (
+        <>
+            {revisions.map((revision, index) => <option key={revision.id} value={revision.id}>{revisionLabel(revision, index)}</option>)}
+            <option value={CURRENT_REVISION}>Current transcript</option>
+        </>
+    );
+    return (
+        <div className="space-y-3">
+            <ul className="space-y-1 max-h-40 overflow-y-auto pr-2">
+                {revisions.map((revision, index) => (
+                    <li key={revision.id} className="flex justify-between items-center gap-2 text-sm">
+                        <span className={revision.source === 'transcription' ? 'text-purple-600 dark:text-purple-300' : 'text-gray-700 dark:text-gray-300'}>
+                            {revisionLabel(revision, index)}
+                        </span>
+                        <button onClick={() => onRestore(revision)} className="flex-shrink-0 px-2 py-0.5 rounded-md font-medium text-purple-600 dark:text-purple-300 bg-purple-100 dark:bg-purple-900/50 hover:bg-purple-200 dark:hover:bg-purple-900">
+                            Restore
+                        </button>
+                    </li>
+                ))}
+            </ul>
+            <div className="flex flex-col sm:flex-row gap-2 text-sm">
+                <select value={from} onChange={(e) => setFromId(e.target.value)} aria-label="Compare from" className={`flex-1 ${compactInputClassName}`}>{options}</select>
+                <span className="self-center text-gray-500">→</span>
+                <select value={to} onChange={(e) => setToId(e.target.value)} aria-label="Compare to" className={`flex-1 ${compactInputClassName}`}>{options}</select>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{added} word{added === 1 ? '' : 's'} added, {removed} removed</p>
+            <div className="max-h-80 overflow-y-auto p-3 bg-white dark:bg-gray-800 rounded-md text-sm whitespace-pre-wrap leading-relaxed">
+                {diff.map((part, index) => (
+                    part.kind === 'equal'
+                        ? <span key={index}>{part.text}</span>
+                        : <span key={index} className={`rounded ${DIFF_STYLES[part.kind]}`}>{part.text}</span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+type ExportFormat = 'txt' | 'md' | 'docx' | 'pdf' | 'srt' | 'vtt' | 'json';
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; timed: boolean }[] = [
+    { format: 'txt', label: 'Plain text (.txt)', timed: false },
+    { format: 'md', label: 'Markdown (.md)', timed: false },
+    { format: 'docx', label: 'Word document (.docx)', timed: false },
+    { format: 'pdf', label: 'PDF document (.pdf)', timed: false },
+    { format: 'srt', label: 'SubRip subtitles (.srt)', timed: true },
+    { format: 'vtt', label: 'WebVTT subtitles (.vtt)', timed: true },
+    { format: 'json', label: 'Timed JSON (.json)', timed: true },
+];
+
+const ExportMenu = ({ hasTimestamps, onSelect, onClose }: { hasTimestamps: boolean; onSelect: (format: ExportFormat) => void; onClose: () => void }) => (
+    <>
+        <div className="fixed inset-0 z-10" onClick={onClose} />
+        <div role="menu" className="absolute right-0 top-8 z-20 w-56 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl animate-fadeIn">
+            {EXPORT_OPTIONS.map(option => (
+                <button
+                    key={option.format}
+                    role="menuitem"
+                    onClick={() => onSelect(option.format)}
+                    disabled={option.timed && !hasTimestamps}
+                    title={option.timed && !hasTimestamps ? 'Requires a timestamped transcript' : undefined}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    {option.label}
+                </button>
+            ))}
+        </div>
+    </>
+);
+
+const InsightsPanel = ({ insights, isGenerating, supported, onGenerate }: {
+    insights: TranscriptInsights | null;
+    isGenerating: boolean;
+    supported: boolean;
+    onGenerate: () => void;
+}) => (
+    <div className="bg-gray-100 dark:bg-gray-900/50 p-4 rounded-lg space-y-4">
+        <div className="flex justify-between items-center gap-2">
+            <h3 className="text-md font-semibold text-gray-700 dark:text-gray-300">Insights</h3>
+            <button
+                onClick={onGenerate}
+                disabled={isGenerating || !supported}
+                title={supported ? undefined : 'The current provider cannot generate insights'}
+                className="flex items-center px-3 py-1 text-sm rounded-md font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 dark:disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+                {isGenerating ? <><LoadingSpinner /> Generating...</> : insights ? 'Regenerate' : 'Generate insights'}
+            </button>
+        </div>
+        {insights && (
+            <div className="space-y-4 text-sm text-gray-700 dark:text-gray-300">
+                <p>{insights.summary}</p>
+                {insights.keyPoints.length > 0 && (
+                    <div>
+                        <h4 className="font-semibold mb-1 text-gray-600 dark:text-gray-400">Key Points</h4>
+                        <ul className="list-disc list-inside space-y-1">
+                            {insights.keyPoints.map((point, i) => <li key={i}>{point}</li>)}
+                        </ul>
+                    </div>
+                )}
+                <div>
+                    <h4 className="font-semibold mb-1 text-gray-600 dark:text-gray-400">Action Items</h4>
+                    {insights.actionItems.length > 0 ? (
+                        <ul className="space-y-2">
+                            {insights.actionItems.map((item, i) => (
+                                <li key={i} className="p-2 bg-white dark:bg-gray-800 rounded-md shadow-sm">
+                                    <p>{item.task}</p>
+                                    {(item.owner || item.dueDate) && (
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                            {item.owner && <>Owner: <span className="font-semibold">{item.owner}</span></>}
+                                            {item.owner && item.dueDate && ' · '}
+                                            {item.dueDate && <>Due: <span className="font-semibold">{item.dueDate}</span></>}
+                                        </p>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    ) : <p className="text-gray-500">No action items found.</p>}
+                </div>
+                <div>
+                    <h4 className="font-semibold mb-1 text-gray-600 dark:text-gray-400">Decisions</h4>
+                    {insights.decisions.length > 0 ? (
+                        <ul className="list-disc list-inside space-y-1">
+                            {insights.decisions.map((decision, i) => <li key={i}>{decision}</li>)}
+                        </ul>
+                    ) : <p className="text-gray-500">No decisions found.</p>}
+                </div>
+            </div>
+        )}
+    </div>
+);
+
+const HighlightedText = ({ text, highlights }: { text: string; highlights: SearchHighlight[] }) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    highlights.forEach((highlight, i) => {
+        if (highlight.start > cursor) parts.push(text.slice(cursor, highlight.start));
+        parts.push(<mark key={i} className="bg-yellow-200 dark:bg-yellow-600/60 text-inherit rounded px-0.5">{text.slice(highlight.start, highlight.end)}</mark>);
+        cursor = highlight.end;
+    });
+    parts.push(text.slice(cursor));
+    return <>{parts}</>;
+};
+
+const SPEAKER_COLORS = ['text-blue-600 dark:text-blue-400', 'text-green-600 dark:text-green-400', 'text-orange-600 dark:text-orange-400', 'text-pink-600 dark:text-pink-400', 'text-teal-600 dark:text-teal-400'];
+
+const SpeakerTable = ({ speakers, onRename }: { speakers: SpeakerMap; onRename: (id: string, name: string) => void }) => (
+    <div className="bg-gray-100 dark:bg-gray-900/50 p-4 rounded-lg space-y-2">
+        <h3 className="text-md font-semibold text-gray-700 dark:text-gray-300">Speakers</h3>
+        {Object.entries(speakers).map(([id, name], index) => (
+            <div key={id} className="flex items-center gap-3">
+                <span className={`w-24 flex-shrink-0 text-sm font-semibold ${SPEAKER_COLORS[index % SPEAKER_COLORS.length]}`}>{id}</span>
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => onRename(id, e.target.value)}
+                    placeholder={id}
+                    aria-label={`Name for ${id}`}
+                    className="flex-grow p-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+            </div>
+        ))}
+    </div>
+);
+
+// Where to put the cursor in the transcript, e.g. after opening a search result.
+interface TranscriptFocus {
+    segmentIndex: number;
+    start: number;
+    end: number;
+}
+
+const UncertainWordsBar = ({ words, currentIndex, threshold, onThresholdChange, onPrevious, onNext, onDismiss }: {
+    words: UncertainWord[];
+    // -1 before the first jump.
+    currentIndex: number;
+    threshold: number;
+    onThresholdChange: (threshold: number) => void;
+    onPrevious: () => void;
+    onNext: () => void;
+    onDismiss: () => void;
+}) => {
+    const current = words[currentIndex];
+    return (
+        <div className="flex flex-wrap items-center gap-3 p-2 rounded-lg text-sm bg-amber-50 dark:bg-amber-900/20 text-amber-900 dark:text-amber-200">
+            <span>
+                {words.length === 0
+                    ? 'No uncertain words below the threshold'
+                    : current
+                        ? `Uncertain word ${currentIndex + 1} of ${words.length} (${Math.round(current.confidence * 100)}% confidence)`
+                        : `${words.length} uncertain word${words.length === 1 ? '' : 's'}`}
+            </span>
+            <div className="flex gap-1">
+                <button onClick={onPrevious} disabled={words.length === 0} className="px-2 py-1 rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed">
+                    Previous
+                </button>
+                <button onClick={onNext} disabled={words.length === 0} className="px-2 py-1 rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed">
+                    Next uncertain
+                </button>
+                {current && (
+                    <button onClick={onDismiss} title="Stop flagging this word" className="px-2 py-1 rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-600">
+                        Mark as correct
+                    </button>
+                )}
+            </div>
+            <label className="flex items-center gap-2 ml-auto">
+                Flag below
+                <input
+                    type="range"
+                    min={0.1}
+                    max={1}
+                    step={0.05}
+                    value={threshold}
+                    onChange={(e) => onThresholdChange(Number(e.target.value))}
+                    className="accent-amber-500"
+                />
+                <span className="w-10 text-right font-mono">{Math.round(threshold * 100)}%</span>
+            </label>
+        </div>
+    );
+};
+
+// Splits the text around the highlighted words. The ranges must be in order and not overlap.
+const highlightRanges = (text: string, words: UncertainWord[], current: UncertainWord | null) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    words.forEach((word, index) => {
+        parts.push(text.slice(cursor, word.start));
+        parts.push(
+            <mark key={index} className={`rounded text-transparent ${word === current ? 'bg-amber-400 dark:bg-amber-500/80' : 'bg-amber-200 dark:bg-amber-700/60'}`}>
+                {text.slice(word.start, word.end)}
+            </mark>
+        );
+        cursor = word.end;
+    });
+    parts.push(text.slice(cursor));
+    return parts;
+};
+
+const TranscriptSegmentList = ({ segments, speakers, mainLanguage, activeIndex, focus, uncertainWords, currentUncertain, onSeek, onEdit }: {
+    segments: TranscriptSegment[];
+    speakers: SpeakerMap;
+    // Segments detected in a different language are tagged with it.
+    mainLanguage?: string;
+    activeIndex: number;
+    focus: TranscriptFocus | null;
+    // Low-confidence words to highlight, in reading order.
+    uncertainWords: UncertainWord[];
+    currentUncertain: UncertainWord | null;
+    onSeek: (time: number) => void;
+    onEdit: (index: number, text: string) => void;
+}) => {
+    const timed = isTimed(segments);
+    const speakerIds = Object.keys(speakers);
+    const textareaRefs = useRef<(HTMLTextAreaElement | null)[]>([]);
+    const wordsBySegment = useMemo(() => {
+        const grouped = new Map<number, UncertainWord[]>();
+        for (const word of uncertainWords) grouped.set(word.segmentIndex, [...(grouped.get(word.segmentIndex) ?? []), word]);
+        return grouped;
+    }, [uncertainWords]);
+
+    useEffect(() => {
+        if (!focus) return;
+        const textarea = textareaRefs.current[focus.segmentIndex];
+        if (!textarea) return;
+        textarea.scrollIntoView({ block: 'center', behavior: 'smooth' });
+        textarea.focus({ preventScroll: true });
+        textarea.setSelectionRange(focus.start, focus.end);
+    }, [focus]);
+
+    return (
+        <div id="transcription" className="w-full h-64 overflow-y-auto p-2 space-y-1 bg-gray-50 dark:bg-gray-900 border-2 border-gray-300 dark:border-gray-700 rounded-lg resize-y">
+            {segments.length === 0 ? (
+                <p className="p-2 text-gray-400 dark:text-gray-500">Your transcribed text will appear here...</p>
+            ) : segments.map((segment, index) => (
+                <div
+                    key={index}
+                    onClick={() => timed && onSeek(segment.start)}
+                    className={`flex items-start gap-3 p-2 rounded-md transition-colors ${index === activeIndex ? 'bg-purple-100 dark:bg-purple-900/40' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                >
+                    {timed && (
+                        <button
+                            onClick={() => onSeek(segment.start)}
+                            title={`Jump to ${formatTimestamp(segment.start)}`}
+                            className="flex-shrink-0 font-mono text-xs mt-1 px-2 py-0.5 rounded bg-purple-200 dark:bg-purple-800 text-purple-700 dark:text-purple-200 hover:bg-purple-300 dark:hover:bg-purple-700"
+                        >
+                            {formatTimestamp(segment.start)}
+                        </button>
+                    )}
+                    {segment.speaker && (
+                        <span className={`flex-shrink-0 mt-0.5 text-sm font-semibold ${SPEAKER_COLORS[Math.max(0, speakerIds.indexOf(segment.speaker)) % SPEAKER_COLORS.length]}`}>
+                            {speakerName(speakers, segment.speaker)}:
+                        </span>
+                    )}
+                    {segment.language && segment.language !== mainLanguage && (
+                        <span title={`Detected as ${segment.language}`} className="flex-shrink-0 mt-1 px-2 py-0.5 rounded text-xs bg-teal-100 dark:bg-teal-900/50 text-teal-700 dark:text-teal-300">
+                            {segment.language}
+                        </span>
+                    )}
+                    {/* A textarea can't style part of its text, so highlights are drawn on an identical layer behind it. */}
+                    <div className="relative flex-grow">
+                        {wordsBySegment.has(index) && (
+                            <div aria-hidden="true" className="absolute inset-0 whitespace-pre-wrap break-words text-transparent pointer-events-none">
+                                {highlightRanges(segment.text, wordsBySegment.get(index)!, currentUncertain)}
+                            </div>
+                        )}
+                        <textarea
+                            ref={(el) => { textareaRefs.current[index] = el; }}
+                            value={segment.text}
+                            onChange={(e) => onEdit(index, e.target.value)}
+                            rows={Math.max(1, Math.ceil(segment.text.length / 70))}
+                            aria-label={`Segment ${index + 1}`}
+                            className="relative block w-full bg-transparent text-gray-800 dark:text-gray-300 focus:outline-none resize-none"
+                        />
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+// Shows the input level on a -60 to 0 dBFS scale.
+const LevelMeter = ({ level, paused }: { level: InputLevel | null; paused: boolean }) => {
+    const decibels = level && level.rms > 0 ? 20 * Math.log10(level.rms) : -Infinity;
+    const percent = Math.min(100, Math.max(0, ((decibels + 60) / 60) * 100));
+    return (
+        <div className="space-y-1">
+            <div className="h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden" role="meter" aria-label="Input level" aria-valuemin={-60} aria-valuemax={0} aria-valuenow={Math.round(Math.max(-60, decibels))}>
+                <div className={`h-full transition-[width] duration-100 ${level?.clipping ? 'bg-red-500' : percent > 85 ? 'bg-yellow-500' : 'bg-green-500'}`} style={{ width: `${percent}%` }} />
+            </div>
+            {!paused && level?.clipping && <p className="text-xs text-red-600 dark:text-red-400">The input is clipping. Move away from the microphone or lower its gain.</p>}
+            {!paused && level?.silent && <p className="text-xs text-yellow-700 dark:text-yellow-400">No sound detected for a few seconds. Check that the right microphone is selected and not muted.</p>}
+        </div>
+    );
+};
+
+// Regions shorter than this are treated as a click, which seeks instead of selecting.
+const MIN_REGION_SECONDS = 0.2;
+
+const WaveformView = ({ waveform, currentTime, region, onSeek, onRegionChange }: {
+    waveform: Waveform;
+    currentTime: number;
+    region: AudioRegion | null;
+    onSeek: (time: number) => void;
+    onRegionChange: (region: AudioRegion | null) => void;
+}) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragStartRef = useRef<number | null>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context) return;
+        const { width, height } = canvas.getBoundingClientRect();
+        const scale = window.devicePixelRatio || 1;
+        canvas.width = width * scale;
+        canvas.height = height * scale;
+        context.scale(scale, scale);
+        context.clearRect(0, 0, width, height);
+
+        const toX = (time: number) => (time / waveform.duration) * width;
+        if (region) {
+            context.fillStyle = 'rgba(168, 85, 247, 0.2)';
+            context.fillRect(toX(region.start), 0, toX(region.end) - toX(region.start), height);
+        }
+        const barWidth = width / waveform.peaks.length;
+        waveform.peaks.forEach((peak, index) => {
+            const x = index * barWidth;
+            const barHeight = Math.max(1, peak * height);
+            context.fillStyle = x < toX(currentTime) ? '#a855f7' : '#9ca3af';
+            context.fillRect(x, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+        });
+        context.fillStyle = '#ef4444';
+        context.fillRect(toX(currentTime) - 1, 0, 2, height);
+    }, [waveform, currentTime, region]);
+
+    const timeAt = (event: React.PointerEvent<HTMLCanvasElement>): number => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+        return ratio * waveform.duration;
+    };
+
+    return (
+        <canvas
+            ref={canvasRef}
+            className="w-full h-20 rounded-md bg-gray-100 dark:bg-gray-900/50 cursor-crosshair touch-none"
+            aria-label="Waveform. Click to seek, drag to select a region."
+            onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                dragStartRef.current = timeAt(e);
+            }}
+            onPointerMove={(e) => {
+                if (dragStartRef.current === null) return;
+                const time = timeAt(e);
+                if (Math.abs(time - dragStartRef.current) < MIN_REGION_SECONDS) return;
+                onRegionChange({ start: Math.min(dragStartRef.current, time), end: Math.max(dragStartRef.current, time) });
+            }}
+            onPointerUp={(e) => {
+                if (dragStartRef.current === null) return;
+                const time = timeAt(e);
+                if (Math.abs(time - dragStartRef.current) < MIN_REGION_SECONDS) {
+                    onRegionChange(null);
+                    onSeek(time);
+                }
+                dragStartRef.current = null;
+            }}
+        />
+    );
+};
+
+// Original and translated text in two columns, one row per segment so each
+// line sits next to its translation.
+const TranslationColumns = ({ segments, speakers, translation, activeIndex, onSeek }: {
+    segments: TranscriptSegment[];
+    speakers: SpeakerMap;
+    translation: Translation;
+    activeIndex: number;
+    onSeek: (time: number) => void;
+}) => {
+    const timed = isTimed(segments);
+    return (
+        <div className="max-h-96 overflow-y-auto border-2 border-gray-300 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-900">
+            <div className="grid grid-cols-2 sticky top-0 bg-gray-200 dark:bg-gray-800 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                <span className="p-2">Original</span>
+                <span className="p-2 border-l border-gray-300 dark:border-gray-700">{translation.language}</span>
+            </div>
+            {segments.map((segment, index) => (
+                <div
+                    key={index}
+                    onClick={() => timed && onSeek(segment.start)}
+                    className={`grid grid-cols-2 text-sm border-t border-gray-200 dark:border-gray-800 ${timed ? 'cursor-pointer' : ''} ${index === activeIndex ? 'bg-purple-100 dark:bg-purple-900/40' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                >
+                    <p className="p-2 text-gray-800 dark:text-gray-300">
+                        {timed && <span className="font-mono text-xs mr-2 text-purple-600 dark:text-purple-300">{formatTimestamp(segment.start)}</span>}
+                        {segment.speaker && <span className="font-semibold mr-1">{speakerName(speakers, segment.speaker)}:</span>}
+                        {segment.text}
+                    </p>
+                    <p className="p-2 border-l border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-300">
+                        {translation.segments[index]?.text ?? ''}
+                    </p>
+                </div>
+            ))}
+        </div>
+    );
+};
+
 
-const SESSIONS_STORAGE_KEY = 'robo-ai-transcription-sessions';
 const THEME_STORAGE_KEY = 'robo-ai-theme';
+const PROVIDER_STORAGE_KEY = 'robo-ai-provider-settings';
+const GLOSSARY_STORAGE_KEY = 'robo-ai-glossaries';
+const INPUT_DEVICE_STORAGE_KEY = 'robo-ai-input-device';
+const MAX_RECORDING_STORAGE_KEY = 'robo-ai-max-recording-minutes';
+const MAX_RECORDING_OPTIONS = [0, 5, 15, 30, 60, 120];
+const PREPROCESS_STORAGE_KEY = 'robo-ai-preprocess';
+const BATCH_CONCURRENCY_STORAGE_KEY = 'robo-ai-batch-concurrency';
+const LIBRARY_VIEW_STORAGE_KEY = 'robo-ai-library-view';
+const CONFIDENCE_THRESHOLD_STORAGE_KEY = 'robo-ai-confidence-threshold';
+const REDACTION_MASK_STORAGE_KEY = 'robo-ai-redaction-mask';
+
+type PreprocessSettings = PreprocessOptions & { enabled: boolean };
+type PreprocessStats = Omit<PreprocessResult, 'blob' | 'timeMap'>;
+
+const formatFileSize = (bytes: number): string =>
+    bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+const LIVE_SLICE_SECONDS = 5;
+const WAVEFORM_BUCKETS = 600;
+// Value of the spoken-language select that leaves detection to the provider.
+const AUTO_DETECT_LANGUAGE = 'auto';
+// Below this, the detected language is shown as uncertain.
+const LOW_LANGUAGE_CONFIDENCE = 0.6;
 
 const languages = [
     { name: 'English' },
@@ -213,37 +1498,154 @@ const languages = [
 const App: React.FC = () => {
     // Recording & Transcription State
     const [isRecording, setIsRecording] = useState<boolean>(false);
+    const [isPaused, setIsPaused] = useState<boolean>(false);
+    const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+    const [selectedInputId, setSelectedInputId] = useLocalStorage<string>(INPUT_DEVICE_STORAGE_KEY, '');
+    const [activeInputLabel, setActiveInputLabel] = useState<string>('');
+    const [inputLevel, setInputLevel] = useState<InputLevel | null>(null);
+    const [maxRecordingMinutes, setMaxRecordingMinutes] = useLocalStorage<number>(MAX_RECORDING_STORAGE_KEY, 0);
     const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
     const [audioUrl, setAudioUrl] = useState<string>('');
-    const [transcribedText, setTranscribedText] = useState<string>('');
+    const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+    const [playbackTime, setPlaybackTime] = useState<number>(0);
+    const [waveform, setWaveform] = useState<Waveform | null>(null);
+    const [region, setRegion] = useState<AudioRegion | null>(null);
+    const [isTrimming, setIsTrimming] = useState<boolean>(false);
     const [isTranscribing, setIsTranscribing] = useState<boolean>(false);
     const [targetLanguage, setTargetLanguage] = useState<string>('English');
+    const [spokenLanguage, setSpokenLanguage] = useState<string>(AUTO_DETECT_LANGUAGE);
+    const [rerunLanguage, setRerunLanguage] = useState<string>('English');
+    const [diarize, setDiarize] = useState<boolean>(false);
+    const [isLiveMode, setIsLiveMode] = useState<boolean>(false);
+    const [liveStatus, setLiveStatus] = useState<'idle' | 'listening' | 'reconciling'>('idle');
+    const [speakers, setSpeakers] = useState<SpeakerMap>({});
     const [recordingTime, setRecordingTime] = useState<number>(0);
+    const [isImporting, setIsImporting] = useState<boolean>(false);
+    const [chunkStates, setChunkStates] = useState<ChunkState[]>([]);
+    const [preprocessSettings, setPreprocessSettings] = useLocalStorage<PreprocessSettings>(PREPROCESS_STORAGE_KEY, { enabled: false, ...DEFAULT_PREPROCESS_OPTIONS });
+    const [preprocessStats, setPreprocessStats] = useState<PreprocessStats | null>(null);
+    const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false);
     
-    // Session Management State (using localStorage custom hook)
+    // Session Management State (persisted to IndexedDB)
     const [sessionName, setSessionName] = useState<string>('');
-    const [savedSessions, setSavedSessions] = useLocalStorage<Session[]>(SESSIONS_STORAGE_KEY, []);
+    const [savedSessions, setSavedSessions, sessionStorageError] = useSessionStore();
     const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
     const [editingSessionName, setEditingSessionName] = useState<string>('');
+    const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState<string>('');
+    const [transcriptFocus, setTranscriptFocus] = useState<TranscriptFocus | null>(null);
+    const searchIndex = useMemo(() => createSearchIndex(), []);
+    const [libraryView, setLibraryView] = useLocalStorage<LibraryView>(LIBRARY_VIEW_STORAGE_KEY, DEFAULT_LIBRARY_VIEW);
+    const [selectedSessionIds, setSelectedSessionIds] = useState<Set<string>>(new Set());
+    const visibleSessions = useMemo(() => applyLibraryView(savedSessions, libraryView), [savedSessions, libraryView]);
+    const libraryFolders = useMemo(() => listFolders(savedSessions), [savedSessions]);
+    const libraryTags = useMemo(() => listTags(savedSessions), [savedSessions]);
+    const libraryLanguages = useMemo(() => listLanguages(savedSessions), [savedSessions]);
+    const [isArchiving, setIsArchiving] = useState<boolean>(false);
+    const [pendingImport, setPendingImport] = useState<{ archive: LibraryArchive; conflicts: ImportConflicts } | null>(null);
+    const libraryInputRef = useRef<HTMLInputElement | null>(null);
+    // Derived from the saved list so deleted sessions drop out of the selection.
+    const selectedSessions = useMemo(() => visibleSessions.filter(session => selectedSessionIds.has(session.id)), [visibleSessions, selectedSessionIds]);
+    const loadedSession = useMemo(() => savedSessions.find(session => session.id === activeSessionId) ?? null, [savedSessions, activeSessionId]);
+    // Search results honour the folder, tag and other filters too.
+    const searchResults = useMemo(() => {
+        searchIndex.sync(savedSessions);
+        const visibleIds = new Set(visibleSessions.map(session => session.id));
+        return searchIndex.search(searchQuery).filter(result => visibleIds.has(result.session.id));
+    }, [searchIndex, savedSessions, searchQuery, visibleSessions]);
 
     // Metrics State
     const [metrics, setMetrics] = useState<WordMetrics | null>(null);
     const [isAnalyzingMetrics, setIsAnalyzingMetrics] = useState<boolean>(false);
     const [showMetrics, setShowMetrics] = useState<boolean>(false);
 
+    // Insights State
+    const [insights, setInsights] = useState<TranscriptInsights | null>(null);
+    const [isGeneratingInsights, setIsGeneratingInsights] = useState<boolean>(false);
+    const [showInsights, setShowInsights] = useState<boolean>(false);
+
+    // Translation State
+    const [translations, setTranslations] = useState<Translation[]>([]);
+    const [activeTranslationLanguage, setActiveTranslationLanguage] = useState<string | null>(null);
+    const [isTranslating, setIsTranslating] = useState<boolean>(false);
+    const [showTranslations, setShowTranslations] = useState<boolean>(false);
+
+    // Revision State: snapshots of the transcript on screen, saved with the session.
+    const [revisions, setRevisions] = useState<Revision[]>([]);
+    const [restoredRevisionId, setRestoredRevisionId] = useState<string | null>(null);
+    const [showHistory, setShowHistory] = useState<boolean>(false);
+
+    // Redaction State
+    const [showRedaction, setShowRedaction] = useState<boolean>(false);
+    const [redactionMaskStyle, setRedactionMaskStyle] = useLocalStorage<MaskStyle>(REDACTION_MASK_STORAGE_KEY, 'label');
+
+    // Confidence State: flagged words below the threshold, and the one last jumped to.
+    const [confidenceThreshold, setConfidenceThreshold] = useLocalStorage<number>(CONFIDENCE_THRESHOLD_STORAGE_KEY, 0.7);
+    const [uncertainIndex, setUncertainIndex] = useState<number>(-1);
+
+    // Batch Queue State. Jobs run alongside the main recorder, using the settings current when each starts.
+    const [jobs, setJobs] = useState<TranscriptionJob[]>([]);
+    const [batchConcurrency, setBatchConcurrency] = useLocalStorage<number>(BATCH_CONCURRENCY_STORAGE_KEY, 2);
+    const runJobRef = useRef<JobQueueOptions['run'] | null>(null);
+    const jobQueue = useMemo(() => createJobQueue({
+        concurrency: batchConcurrency,
+        run: (job, reportProgress) => runJobRef.current!(job, reportProgress),
+        onChange: setJobs,
+    }), []);
+
     // UI/UX State
     const [error, setError] = useState<string | null>(null);
     const [copySuccess, setCopySuccess] = useState<string>('');
+    const [showExportMenu, setShowExportMenu] = useState<boolean>(false);
     const [isSessionsExpanded, setIsSessionsExpanded] = useState<boolean>(true);
     const [showHelpModal, setShowHelpModal] = useState<boolean>(false);
+    const [showSettingsModal, setShowSettingsModal] = useState<boolean>(false);
     const [theme, setTheme] = useLocalStorage<string>(THEME_STORAGE_KEY, () => 
         window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light'
     );
 
+    // Provider State
+    const [providerSettings, setProviderSettings] = useLocalStorage<ProviderSettings>(PROVIDER_STORAGE_KEY, DEFAULT_PROVIDER_SETTINGS);
+    const [glossarySettings, setGlossarySettings] = useLocalStorage<GlossarySettings>(GLOSSARY_STORAGE_KEY, DEFAULT_GLOSSARY_SETTINGS);
+    const provider = useMemo(() => createProvider(providerSettings), [providerSettings]);
+    const activeGlossary = useMemo(
+        () => glossarySettings.glossaries.find(glossary => glossary.id === glossarySettings.activeGlossaryId) ?? null,
+        [glossarySettings],
+    );
+    const vocabulary = useMemo(() => activeGlossary?.terms.filter(term => term.term.trim()) ?? [], [activeGlossary]);
+    const replacements = useMemo(() => activeGlossary?.replacements ?? [], [activeGlossary]);
+
+    const transcribedText = useMemo(() => transcriptToText(segments, speakers), [segments, speakers]);
+    const activeSegmentIndex = useMemo(() => findSegmentIndexAt(segments, playbackTime), [segments, playbackTime]);
+    const languageDetection = useMemo(() => summarizeLanguages(segments), [segments]);
+    const uncertainWords = useMemo(() => findUncertainWords(segments, confidenceThreshold), [segments, confidenceThreshold]);
+    // Only shown for transcripts from a provider that reports confidence.
+    const hasConfidence = useMemo(() => segments.some(segment => segment.uncertain), [segments]);
+    const spokenLanguageHint = spokenLanguage === AUTO_DETECT_LANGUAGE ? undefined : spokenLanguage;
+    // Cheap enough to recompute on every edit, unlike the model-based metrics.
+    const textStats = useMemo(() => {
+        const lastSegmentEnd = segments.reduce((end, segment) => Math.max(end, segment.end), 0);
+        return computeTextStats(transcribedText, recordingTime || lastSegmentEnd);
+    }, [recordingTime, segments, transcribedText]);
+
     // Refs
+    const audioRef = useRef<HTMLAudioElement | null>(null);
+    // Applied once the restored audio has loaded, since it isn't rendered yet when a session is opened.
+    const pendingSeekRef = useRef<number | null>(null);
+    // Where region playback should stop.
+    const regionEndRef = useRef<number | null>(null);
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const audioChunksRef = useRef<Blob[]>([]);
+    const fileInputRef = useRef<HTMLInputElement | null>(null);
+    // Chunk audio and progress are kept in refs so failed chunks can be retried without re-splitting.
+    const chunkBlobsRef = useRef<Blob[]>([]);
+    const chunkStatesRef = useRef<ChunkState[]>([]);
+    const chunkOptionsRef = useRef<TranscribeOptions | null>(null);
+    // Maps times in the preprocessed audio back to the recording, when preprocessing removed silence.
+    const timeMapRef = useRef<TimeMapPiece[] | null>(null);
     const timerIntervalRef = useRef<number | null>(null);
+    const liveTranscriptionRef = useRef<LiveTranscription | null>(null);
+    const stopLevelMeterRef = useRef<(() => void) | null>(null);
 
     // --- Effects ---
     useEffect(() => {
@@ -260,6 +1662,38 @@ const App: React.FC = () => {
             if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
         };
     }, [audioUrl]);
+
+    useEffect(() => {
+        jobQueue.setConcurrency(batchConcurrency);
+    }, [jobQueue, batchConcurrency]);
+
+    // Queued jobs only live in memory, so warn before they are lost.
+    useEffect(() => {
+        if (!jobs.some(job => job.status === 'queued' || job.status === 'running')) return;
+        const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+        window.addEventListener('beforeunload', warn);
+        return () => window.removeEventListener('beforeunload', warn);
+    }, [jobs]);
+
+    useEffect(() => {
+        const updateDevices = () => listInputDevices()
+            .then(setInputDevices)
+            .catch(err => console.error("Could not list microphones:", err));
+        updateDevices();
+        navigator.mediaDevices?.addEventListener('devicechange', updateDevices);
+        return () => navigator.mediaDevices?.removeEventListener('devicechange', updateDevices);
+    }, []);
+
+    useEffect(() => {
+        setWaveform(null);
+        setRegion(null);
+        if (!audioBlob) return;
+        let cancelled = false;
+        computeWaveform(audioBlob, WAVEFORM_BUCKETS)
+            .then(result => !cancelled && setWaveform(result))
+            .catch(err => console.error("Could not draw the waveform:", err));
+        return () => { cancelled = true; };
+    }, [audioBlob]);
     
     // --- Helper Functions ---
     const blobToBase64 = (blob: Blob): Promise<string> => {
@@ -289,17 +1723,80 @@ const App: React.FC = () => {
         setIsAnalyzingMetrics(true);
         setShowMetrics(true);
         try {
-            const result = await analyzeTextMetrics(text);
+            const result = await provider.analyzeMetrics(text);
             setMetrics(result);
         } catch (err) {
             console.error("Metrics analysis error:", err);
-            setError("Failed to analyze text metrics.");
+            setError(describeError(err, "Failed to analyze text metrics."));
             setShowMetrics(false);
         } finally {
             setIsAnalyzingMetrics(false);
         }
-    }, []);
+    }, [provider]);
     
+    const handleGenerateInsights = useCallback(async () => {
+        if (!transcribedText.trim()) return;
+        setIsGeneratingInsights(true);
+        setShowInsights(true);
+        try {
+            setInsights(await provider.generateInsights(transcribedText));
+        } catch (err) {
+            console.error("Insights generation error:", err);
+            setError(describeError(err, "Failed to generate insights."));
+        } finally {
+            setIsGeneratingInsights(false);
+        }
+    }, [provider, transcribedText]);
+
+    const handleTranslate = useCallback(async () => {
+        if (segments.length === 0) return;
+        setIsTranslating(true);
+        setError(null);
+        try {
+            const texts = await provider.translate(segments.map(segment => segment.text), targetLanguage);
+            const translation: Translation = {
+                language: targetLanguage,
+                segments: segments.map((segment, index) => ({
+                    start: segment.start,
+                    end: segment.end,
+                    text: texts[index] ?? '',
+                    ...(segment.speaker && { speaker: segment.speaker }),
+                })),
+                date: new Date().toISOString(),
+            };
+            // Translating into a language that already has a translation replaces it.
+            setTranslations(prev => [...prev.filter(existing => existing.language !== targetLanguage), translation]);
+            setActiveTranslationLanguage(targetLanguage);
+        } catch (err) {
+            console.error("Translation error:", err);
+            setError(describeError(err, `Failed to translate the transcript into ${targetLanguage}.`));
+        } finally {
+            setIsTranslating(false);
+        }
+    }, [provider, segments, targetLanguage]);
+
+    const handleDeleteTranslation = (language: string) => {
+        const remaining = translations.filter(translation => translation.language !== language);
+        setTranslations(remaining);
+        if (activeTranslationLanguage === language) setActiveTranslationLanguage(remaining[0]?.language ?? null);
+    };
+
+    const shareText = useCallback(async (text: string, title = 'Transcription') => {
+        try {
+            await navigator.share({ title, text });
+        } catch (err) {
+            if (err instanceof Error && err.name !== 'AbortError') {
+                console.error("Error sharing text:", err);
+                if (err.name === 'NotAllowedError') {
+                    setError("Sharing permission denied. You can copy the text instead.");
+                } else {
+                    setError("An error occurred while sharing text.");
+                }
+                setTimeout(() => setError(null), 4000);
+            }
+        }
+    }, []);
+
     const handleShare = useCallback(async (type: 'audio' | 'text') => {
         if (!navigator.share) {
             setError("Sharing is not supported on this browser.");
@@ -348,39 +1845,92 @@ const App: React.FC = () => {
             }
         } else if (type === 'text') {
             if (!transcribedText) return;
-            try {
-                await navigator.share({
-                    title: 'Transcription',
-                    text: transcribedText,
-                });
-            } catch (err) {
-                if (err instanceof Error && err.name !== 'AbortError') {
-                    console.error("Error sharing text:", err);
-                    if (err.name === 'NotAllowedError') {
-                        setError("Sharing permission denied. You can copy the text instead.");
-                    } else {
-                        setError("An error occurred while sharing text.");
-                    }
-                    setTimeout(() => setError(null), 4000);
-                }
-            }
+            await shareText(transcribedText);
         }
-    }, [audioBlob, transcribedText]);
+    }, [audioBlob, transcribedText, shareText]);
 
-    const handleDownloadText = useCallback(() => {
-        if (!transcribedText.trim()) return;
-        
-        const blob = new Blob([transcribedText], { type: 'text/plain' });
+    const downloadFile = (content: string | Blob, filename: string, mimeType: string) => {
+        const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `transcription-${Date.now()}.txt`;
+        a.download = filename;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
+    };
+
+    const handleExportGlossary = (glossary: Glossary) => {
+        const filename = glossary.name.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '').toLowerCase() || 'glossary';
+        downloadFile(exportGlossary(glossary), `${filename}.glossary.json`, 'application/json');
+    };
+
+    const handleImportGlossary = async (file: File) => {
+        try {
+            const glossary = parseGlossary(await file.text());
+            setGlossarySettings(prev => ({ glossaries: [...prev.glossaries, glossary], activeGlossaryId: glossary.id }));
+        } catch (err) {
+            console.error("Glossary import error:", err);
+            setError(`Could not import the glossary: ${err instanceof Error ? err.message : String(err)}`);
+            setShowSettingsModal(false);
+        }
+    };
+
+    const handleDownloadText = useCallback(() => {
+        if (!transcribedText.trim()) return;
+        downloadFile(transcribedText, `transcription-${Date.now()}.txt`, 'text/plain');
     }, [transcribedText]);
 
+    const handleExport = useCallback(async (format: ExportFormat) => {
+        setShowExportMenu(false);
+        const timestamp = Date.now();
+        const activeSession = savedSessions.find(session => session.id === activeSessionId);
+        const lastSegmentEnd = segments.reduce((end, segment) => Math.max(end, segment.end), 0);
+        const documentMetadata: DocumentMetadata = {
+            title: sessionName.trim() || activeSession?.name || 'Transcription',
+            date: activeSession?.date ?? new Date().toISOString(),
+            language: languageDetection?.language ?? activeSession?.language,
+            duration: activeSession?.duration ?? (recordingTime || lastSegmentEnd || undefined),
+            speakers,
+            stats: textStats,
+            metrics,
+        };
+        switch (format) {
+            case 'txt':
+                handleDownloadText();
+                break;
+            case 'md':
+                downloadFile(toMarkdown(documentMetadata, segments), `transcription-${timestamp}.md`, 'text/markdown');
+                break;
+            case 'docx':
+                try {
+                    downloadFile(await toDocx(documentMetadata, segments), `transcription-${timestamp}.docx`, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+                } catch (err) {
+                    console.error("DOCX export error:", err);
+                    setError("Failed to create the Word document.");
+                }
+                break;
+            case 'pdf':
+                try {
+                    downloadFile(toPdf(documentMetadata, segments), `transcription-${timestamp}.pdf`, 'application/pdf');
+                } catch (err) {
+                    console.error("PDF export error:", err);
+                    setError("Failed to create the PDF document.");
+                }
+                break;
+            case 'srt':
+                downloadFile(toSrt(segments, speakers), `transcription-${timestamp}.srt`, 'application/x-subrip');
+                break;
+            case 'vtt':
+                downloadFile(toWebVtt(segments, speakers), `transcription-${timestamp}.vtt`, 'text/vtt');
+                break;
+            case 'json':
+                downloadFile(toTimedJson(segments, speakers), `transcription-${timestamp}.json`, 'application/json');
+                break;
+        }
+    }, [activeSessionId, handleDownloadText, languageDetection, metrics, recordingTime, savedSessions, segments, sessionName, speakers, textStats]);
+
     const handleCopyText = useCallback(() => {
         if (transcribedText) {
             navigator.clipboard.writeText(transcribedText).then(() => {
@@ -396,12 +1946,29 @@ const App: React.FC = () => {
 
 
     // --- Event Handlers ---
+    const startTimer = () => {
+        if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+        timerIntervalRef.current = window.setInterval(() => {
+            setRecordingTime(prevTime => prevTime + 1);
+        }, 1000);
+    };
+
     const handleStartRecording = useCallback(async () => {
         setError(null);
+        setActiveSessionId(null);
+        setRevisions([]);
+        setRestoredRevisionId(null);
+        setUncertainIndex(-1);
         setAudioBlob(null);
-        setTranscribedText('');
+        setChunkStates([]);
+        setPreprocessStats(null);
+        setSegments([]);
+        setSpeakers({});
         setSessionName('');
         setMetrics(null);
+        setInsights(null);
+        setTranslations([]);
+        setActiveTranslationLanguage(null);
         setShowMetrics(false);
         if (audioUrl) URL.revokeObjectURL(audioUrl);
         setAudioUrl('');
@@ -412,43 +1979,99 @@ const App: React.FC = () => {
         }
 
         try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            // An exact constraint fails loudly when the chosen microphone is missing
+            // instead of quietly recording from another one.
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: selectedInputId ? { deviceId: { exact: selectedInputId } } : true });
+            setActiveInputLabel(stream.getAudioTracks()[0]?.label ?? '');
+            // Device labels are only exposed once microphone access has been granted.
+            listInputDevices().then(setInputDevices).catch(() => { /* The picker keeps its previous list. */ });
+            stopLevelMeterRef.current = startLevelMeter(stream, setInputLevel);
             mediaRecorderRef.current = new MediaRecorder(stream, { mimeType: 'audio/webm' });
             
             mediaRecorderRef.current.ondataavailable = (event) => {
                 if (event.data.size > 0) audioChunksRef.current.push(event.data);
             };
 
-            mediaRecorderRef.current.onstop = () => {
+            mediaRecorderRef.current.onstop = async () => {
                 const mimeType = mediaRecorderRef.current?.mimeType || 'audio/webm';
                 const newAudioBlob = new Blob(audioChunksRef.current, { type: mimeType });
-                setAudioBlob(newAudioBlob);
-                setAudioUrl(URL.createObjectURL(newAudioBlob));
                 audioChunksRef.current = [];
+                stopLevelMeterRef.current?.();
+                stopLevelMeterRef.current = null;
+                setInputLevel(null);
+                const liveTranscription = liveTranscriptionRef.current;
+                liveTranscriptionRef.current = null;
+                if (liveTranscription) {
+                    setLiveStatus('reconciling');
+                    setSegments(await liveTranscription.stop());
+                }
                 stream.getTracks().forEach(track => track.stop());
+                setAudioBlob(newAudioBlob);
+                setAudioUrl(URL.createObjectURL(newAudioBlob));
             };
 
             mediaRecorderRef.current.start();
             setIsRecording(true);
 
-            timerIntervalRef.current = window.setInterval(() => {
-                setRecordingTime(prevTime => prevTime + 1);
-            }, 1000);
+            if (isLiveMode) {
+                liveTranscriptionRef.current = startLiveTranscription(stream, {
+                    sliceSeconds: LIVE_SLICE_SECONDS,
+                    mimeType: 'audio/webm',
+                    transcribe: async (slice) => applyReplacements(
+                        await provider.transcribe(await blobToBase64(slice), slice.type, { language: spokenLanguageHint, diarize: false, vocabulary }),
+                        replacements,
+                    ),
+                    onUpdate: setSegments,
+                    onError: (err) => {
+                        console.error("Live transcription error:", err);
+                        setError(describeError(err, "Part of the live text could not be transcribed. It will be filled in when you stop."));
+                    },
+                });
+                setLiveStatus('listening');
+            }
+
+            startTimer();
         } catch (err) {
             console.error("Error starting recording:", err);
-            setError("Could not start recording. Please grant microphone permissions.");
+            stopLevelMeterRef.current?.();
+            stopLevelMeterRef.current = null;
+            if (selectedInputId && err instanceof DOMException && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError')) {
+                setError("The selected microphone is not available. Plug it back in or choose another one.");
+            } else {
+                setError("Could not start recording. Please grant microphone permissions.");
+            }
             setIsRecording(false);
             if (timerIntervalRef.current) {
                 clearInterval(timerIntervalRef.current);
                 timerIntervalRef.current = null;
             }
         }
-    }, [audioUrl]);
+    }, [audioUrl, isLiveMode, provider, replacements, selectedInputId, spokenLanguageHint, vocabulary]);
+
+    const handlePauseRecording = useCallback(() => {
+        if (mediaRecorderRef.current?.state !== 'recording') return;
+        mediaRecorderRef.current.pause();
+        liveTranscriptionRef.current?.pause();
+        if (timerIntervalRef.current) {
+            clearInterval(timerIntervalRef.current);
+            timerIntervalRef.current = null;
+        }
+        setIsPaused(true);
+    }, []);
+
+    const handleResumeRecording = useCallback(() => {
+        if (mediaRecorderRef.current?.state !== 'paused') return;
+        mediaRecorderRef.current.resume();
+        liveTranscriptionRef.current?.resume();
+        startTimer();
+        setIsPaused(false);
+    }, []);
 
     const handleStopRecording = useCallback(() => {
         if (mediaRecorderRef.current && isRecording) {
             mediaRecorderRef.current.stop();
             setIsRecording(false);
+            setIsPaused(false);
             if (timerIntervalRef.current) {
                 clearInterval(timerIntervalRef.current);
                 timerIntervalRef.current = null;
@@ -456,35 +2079,275 @@ const App: React.FC = () => {
         }
     }, [isRecording]);
 
-    const handleTranscribe = useCallback(async () => {
+    useEffect(() => {
+        if (isRecording && maxRecordingMinutes > 0 && recordingTime >= maxRecordingMinutes * 60) handleStopRecording();
+    }, [isRecording, maxRecordingMinutes, recordingTime, handleStopRecording]);
+
+    const handleImportFile = useCallback(async (file: File) => {
+        const validationError = validateMediaFile(file);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+
+        setError(null);
+        setActiveSessionId(null);
+        setRevisions([]);
+        setRestoredRevisionId(null);
+        setUncertainIndex(-1);
+        setChunkStates([]);
+        setPreprocessStats(null);
+        setSegments([]);
+        setSpeakers({});
+        setSessionName(file.name.replace(/\.[^.]+$/, ''));
+        setMetrics(null);
+        setInsights(null);
+        setTranslations([]);
+        setActiveTranslationLanguage(null);
+        setShowMetrics(false);
+        setIsImporting(true);
+        try {
+            const media = detectMediaType(file)!;
+            let importedBlob: Blob = new Blob([file], { type: media.mimeType });
+            if (media.kind === 'video') {
+                importedBlob = await extractAudioTrack(file);
+            }
+            const duration = await getMediaDuration(importedBlob);
+            if (audioUrl) URL.revokeObjectURL(audioUrl);
+            setAudioBlob(importedBlob);
+            setAudioUrl(URL.createObjectURL(importedBlob));
+            setRecordingTime(Math.round(duration));
+        } catch (err) {
+            console.error("Error importing file:", err);
+            setError(`Could not read audio from "${file.name}". The file may be corrupted or use an unsupported codec.`);
+        } finally {
+            setIsImporting(false);
+        }
+    }, [audioUrl]);
+
+    const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) handleImportFile(file);
+        e.target.value = '';
+    };
+
+    const handleFileDrop = (e: React.DragEvent<HTMLElement>) => {
+        e.preventDefault();
+        setIsDraggingFile(false);
+        if (isRecording || isTranscribing || isImporting) return;
+        const files = e.dataTransfer.files;
+        if (files.length > 1) {
+            setError("Please drop one file at a time.");
+            return;
+        }
+        if (files[0]) handleImportFile(files[0]);
+    };
+
+    const updateChunk = (index: number, patch: Partial<ChunkState>) => {
+        chunkStatesRef.current = chunkStatesRef.current.map(chunk => (chunk.index === index ? { ...chunk, ...patch } : chunk));
+        setChunkStates(chunkStatesRef.current);
+    };
+
+    // Transcribes the given chunks and stitches everything finished so far into the transcript.
+    const transcribeChunks = useCallback(async (indices: number[]) => {
+        const options = chunkOptionsRef.current;
+        if (!options) return;
+
+        let lastError: unknown = null;
+        await mapWithConcurrency(indices, DEFAULT_CHUNK_OPTIONS.concurrency, async (index) => {
+            const chunk = chunkStatesRef.current[index];
+            const blob = chunkBlobsRef.current[index];
+            updateChunk(index, { status: 'running', error: undefined });
+            try {
+                const base64Audio = await blobToBase64(blob);
+                const result = applyReplacements(await provider.transcribe(base64Audio, blob.type, options), replacements);
+                updateChunk(index, { status: 'done', segments: offsetSegments(result, chunk.start) });
+            } catch (err) {
+                console.error(`Transcription error in part ${index + 1}:`, err);
+                lastError = err;
+                updateChunk(index, { status: 'failed', error: describeError(err, err instanceof Error ? err.message : String(err)) });
+            }
+        });
+
+        // Speaker labels are assigned per request, so "Speaker 1" in one part
+        // is not guaranteed to be the same person in the next.
+        const stitched = timeMapRef.current
+            ? remapSegments(stitchChunks(chunkStatesRef.current), timeMapRef.current)
+            : stitchChunks(chunkStatesRef.current);
+        if (stitched.length > 0) {
+            setSegments(stitched);
+            setSpeakers(prev => collectSpeakers(stitched, prev));
+            setRevisions(prev => appendRevision(prev, 'transcription', stitched, collectSpeakers(stitched), { provider: provider.id }));
+        }
+
+        const failedCount = chunkStatesRef.current.filter(chunk => chunk.status === 'failed').length;
+        if (failedCount > 0) {
+            const hint = describeError(lastError, '');
+            setError(chunkStatesRef.current.length === 1
+                ? hint || "Failed to transcribe audio. Please try again."
+                : `${failedCount} of ${chunkStatesRef.current.length} parts failed to transcribe.${hint && ` ${hint}`} Retry them below.`);
+        } else {
+            await runMetricsAnalysis(transcriptToText(stitched));
+        }
+    }, [provider, replacements, runMetricsAnalysis]);
+
+    // With `keepCurrentText`, the transcript on screen (e.g. live partial text)
+    // stays visible until the new transcription replaces it. `language`
+    // overrides the spoken-language setting, e.g. when a detection was wrong.
+    const handleTranscribe = useCallback(async ({ keepCurrentText = false, language = spokenLanguageHint }: { keepCurrentText?: boolean; language?: string } = {}) => {
         if (!audioBlob) {
             setError("No audio recorded to transcribe.");
             return;
         }
         setIsTranscribing(true);
         setError(null);
-        setTranscribedText('');
+        if (!keepCurrentText) {
+            setSegments([]);
+            setSpeakers({});
+        }
         setCopySuccess('');
         setMetrics(null);
+        setInsights(null);
+        setTranslations([]);
+        setActiveTranslationLanguage(null);
         setShowMetrics(false);
+        setPreprocessStats(null);
+        timeMapRef.current = null;
         try {
-            const base64Audio = await blobToBase64(audioBlob);
-            const result = await transcribeAudio(base64Audio, audioBlob.type, targetLanguage);
-            setTranscribedText(result);
-            await runMetricsAnalysis(result);
+            let source = audioBlob;
+            let duration = recordingTime;
+            if (preprocessSettings.enabled) {
+                const { blob, timeMap, ...stats } = await preprocessAudio(audioBlob, preprocessSettings);
+                source = blob;
+                duration = stats.processedDuration;
+                timeMapRef.current = timeMap;
+                setPreprocessStats(stats);
+            }
+            // Short recordings are sent as-is; longer ones are decoded and split.
+            const { chunks, blobs } = duration > 0 && duration <= DEFAULT_CHUNK_OPTIONS.chunkSeconds
+                ? { chunks: [{ index: 0, start: 0, end: duration }], blobs: [source] }
+                : await splitAudio(source);
+            chunkBlobsRef.current = blobs;
+            chunkStatesRef.current = chunks.map(chunk => ({ ...chunk, status: 'pending' }));
+            chunkOptionsRef.current = {
+                language,
+                diarize: diarize && provider.capabilities.diarization,
+                vocabulary,
+            };
+            setChunkStates(chunkStatesRef.current);
+            await transcribeChunks(chunks.map(chunk => chunk.index));
         } catch (err) {
             console.error("Transcription error:", err);
-            setError("Failed to transcribe audio. Please try again.");
+            setError(describeError(err, "Failed to transcribe audio. Please try again."));
+        } finally {
+            setIsTranscribing(false);
+        }
+    }, [audioBlob, diarize, preprocessSettings, provider, recordingTime, spokenLanguageHint, transcribeChunks, vocabulary]);
+
+    // Once a live recording stops, transcribe the full audio in one pass to
+    // replace the slice-by-slice text, which can break words at slice boundaries.
+    useEffect(() => {
+        if (liveStatus !== 'reconciling' || !audioBlob || isRecording) return;
+        setLiveStatus('idle');
+        handleTranscribe({ keepCurrentText: true });
+    }, [liveStatus, audioBlob, isRecording, handleTranscribe]);
+
+    const handleRerunWithLanguage = () => {
+        setSpokenLanguage(rerunLanguage);
+        handleTranscribe({ language: rerunLanguage });
+    };
+
+    const handleRetryChunks = useCallback(async (indices: number[]) => {
+        setIsTranscribing(true);
+        setError(null);
+        try {
+            await transcribeChunks(indices);
         } finally {
             setIsTranscribing(false);
         }
-    }, [audioBlob, runMetricsAnalysis, targetLanguage]);
+    }, [transcribeChunks]);
+
+
+    // Runs one batch job from file to saved session. Rate-limit errors are left
+    // to propagate so the queue can back off and try again.
+    runJobRef.current = async (job, reportProgress) => {
+        const media = detectMediaType(job.file)!;
+        const audio = media.kind === 'video' ? await extractAudioTrack(job.file) : new Blob([job.file], { type: media.mimeType });
+        const duration = await getMediaDuration(audio);
+        let source = audio;
+        let sourceDuration = duration;
+        let timeMap: TimeMapPiece[] | null = null;
+        if (preprocessSettings.enabled) {
+            const result = await preprocessAudio(audio, preprocessSettings);
+            source = result.blob;
+            sourceDuration = result.processedDuration;
+            timeMap = result.timeMap;
+        }
+
+        const options: TranscribeOptions = {
+            language: spokenLanguageHint,
+            diarize: diarize && provider.capabilities.diarization,
+            vocabulary,
+        };
+        // One part at a time per job, so the queue's concurrency is the number of requests in flight.
+        const stitched = await transcribeRecording(
+            source,
+            sourceDuration,
+            async (chunk) => provider.transcribe(await blobToBase64(chunk), chunk.type, options),
+            reportProgress,
+            { ...DEFAULT_CHUNK_OPTIONS, concurrency: 1 },
+        );
+        const jobSegments = applyReplacements(timeMap ? remapSegments(stitched, timeMap) : stitched, replacements);
+        if (jobSegments.length === 0) throw new Error("No speech was found in the recording.");
+
+        const jobSpeakers = collectSpeakers(jobSegments);
+        const detection = spokenLanguageHint ? null : summarizeLanguages(jobSegments);
+        const session: Session = {
+            id: job.id,
+            name: job.name,
+            text: transcriptToText(jobSegments, jobSpeakers),
+            segments: jobSegments,
+            speakers: jobSpeakers,
+            date: new Date().toISOString(),
+            language: detection?.language ?? spokenLanguageHint,
+            languageDetection: detection ?? undefined,
+            diarize: options.diarize,
+            duration: Math.round(duration) || undefined,
+            provider: provider.id,
+            hasAudio: true,
+            folder: libraryView.folder || undefined,
+            revisions: appendRevision([], 'transcription', jobSegments, jobSpeakers, { provider: provider.id }),
+        };
+        setSavedSessions(prev => [{ ...session, name: uniqueSessionName(session.name, prev) }, ...prev]);
+        try {
+            await putAudio(session.id, audio);
+        } catch (err) {
+            console.error("Error saving session audio:", err);
+            setSavedSessions(prev => prev.map(saved => (saved.id === session.id ? { ...saved, hasAudio: false } : saved)));
+        }
+        return session.id;
+    };
+
+    const handleAddBatchFiles = (files: File[]) => {
+        const invalid = files.map(validateMediaFile).filter((message): message is string => message !== null);
+        setError(invalid.length > 0 ? invalid.join(' ') : null);
+        jobQueue.add(files.filter(file => validateMediaFile(file) === null));
+    };
 
+    const handleAddCurrentToQueue = () => {
+        if (!audioBlob) return;
+        const name = sessionName.trim() || `Recording ${new Date().toLocaleString()}`;
+        jobQueue.add([new File([audioBlob], `${name}.${audioExtension(audioBlob.type)}`, { type: audioBlob.type })]);
+    };
 
     const handleClearText = () => {
-        setTranscribedText('');
+        setSegments([]);
+        setSpeakers({});
         setCopySuccess('');
         setMetrics(null);
+        setInsights(null);
+        setTranslations([]);
+        setActiveTranslationLanguage(null);
         setShowMetrics(false);
     };
 
@@ -505,39 +2368,393 @@ const App: React.FC = () => {
         }
 
         setError(null);
+        const sessionRevisions = appendRevision(revisions, 'edit', segments, speakers, restoredRevisionId ? { restoredFrom: restoredRevisionId } : {});
         const newSession: Session = {
             id: Date.now().toString(),
             name: finalSessionName || `Session ${new Date().toLocaleString()}`,
             text: transcribedText,
+            segments,
+            speakers,
+            metrics: metrics ?? undefined,
+            insights: insights ?? undefined,
             date: new Date().toISOString(),
+            language: languageDetection?.language ?? spokenLanguageHint,
+            languageDetection: languageDetection ?? undefined,
+            diarize,
+            duration: recordingTime || undefined,
+            provider: provider.id,
+            hasAudio: !!audioBlob,
+            folder: libraryView.folder || undefined,
+            translations: translations.length > 0 ? translations : undefined,
+            revisions: sessionRevisions,
         };
         setSavedSessions(prev => [newSession, ...prev]);
+        setActiveSessionId(newSession.id);
         setSessionName('');
-        setAudioBlob(null);
-        if (audioUrl) {
-            URL.revokeObjectURL(audioUrl);
-            setAudioUrl('');
+        setRevisions(sessionRevisions);
+        setRestoredRevisionId(null);
+        if (audioBlob) {
+            putAudio(newSession.id, audioBlob).catch(err => {
+                console.error("Error saving session audio:", err);
+                setError("The session was saved, but its audio could not be stored.");
+                setSavedSessions(prev => prev.map(session => (session.id === newSession.id ? { ...session, hasAudio: false } : session)));
+            });
+        }
+    };
+
+    // Saves the redacted transcript as a separate session, leaving the original and the screen untouched.
+    const handleSaveRedactedCopy = (redactedSegments: TranscriptSegment[], redactedSpeakers: SpeakerMap) => {
+        const original = loadedSession;
+        const baseName = sessionName.trim() || original?.name || `Session ${new Date().toLocaleString()}`;
+        const redactedSession: Session = {
+            id: Date.now().toString(),
+            name: uniqueSessionName(`${baseName} (redacted)`, savedSessions),
+            text: transcriptToText(redactedSegments, redactedSpeakers),
+            segments: redactedSegments,
+            speakers: redactedSpeakers,
+            metrics: metrics ?? undefined,
+            date: new Date().toISOString(),
+            language: languageDetection?.language ?? spokenLanguageHint ?? original?.language,
+            diarize,
+            duration: recordingTime || original?.duration,
+            provider: provider.id,
+            folder: original?.folder ?? (libraryView.folder || undefined),
+            tags: original?.tags,
+            redacted: true,
+            redactedFrom: original?.id,
+        };
+        setSavedSessions(prev => [redactedSession, ...prev]);
+        setShowRedaction(false);
+    };
+
+    // Saves the transcript on screen into the loaded session, recording it as a new revision.
+    const handleUpdateSession = () => {
+        const session = loadedSession;
+        if (!session) return;
+        if (!transcribedText.trim()) {
+            setError("There is no transcribed text to save.");
+            return;
+        }
+        const name = sessionName.trim() || session.name;
+        if (savedSessions.some(other => other.id !== session.id && other.name === name)) {
+            setError(`A session named "${name}" already exists. Please choose a different name.`);
+            return;
         }
+
+        setError(null);
+        const sessionRevisions = appendRevision(revisions, 'edit', segments, speakers, restoredRevisionId ? { restoredFrom: restoredRevisionId } : {});
+        const updated: Session = {
+            ...session,
+            name,
+            text: transcribedText,
+            segments,
+            speakers,
+            metrics: metrics ?? undefined,
+            insights: insights ?? undefined,
+            language: languageDetection?.language ?? spokenLanguageHint ?? session.language,
+            languageDetection: languageDetection ?? undefined,
+            duration: recordingTime || session.duration,
+            hasAudio: !!audioBlob || session.hasAudio,
+            translations: translations.length > 0 ? translations : undefined,
+            revisions: sessionRevisions,
+        };
+        setSavedSessions(prev => prev.map(saved => (saved.id === session.id ? updated : saved)));
+        setSessionName(name);
+        setRevisions(sessionRevisions);
+        setRestoredRevisionId(null);
+        // The recording may have been trimmed since the session was loaded.
+        if (audioBlob) {
+            putAudio(session.id, audioBlob).catch(err => {
+                console.error("Error saving session audio:", err);
+                setError("The session was updated, but its audio could not be stored.");
+            });
+        }
+    };
+
+    // Puts an older revision back on screen. It becomes a revision of its own once saved.
+    const handleRestoreRevision = (revision: Revision) => {
+        setSegments(revision.segments);
+        setSpeakers(revision.speakers);
+        setRestoredRevisionId(revision.id);
+        setCopySuccess('');
+        // Translations line up with segments by position, which a restore can change.
+        setTranslations([]);
+        setActiveTranslationLanguage(null);
     };
 
-    const handleLoadSession = (id: string) => {
+    const handleLoadSession = async (id: string) => {
         const sessionToLoad = savedSessions.find(s => s.id === id);
         if (sessionToLoad) {
-            setTranscribedText(sessionToLoad.text);
+            setActiveSessionId(sessionToLoad.id);
+            setChunkStates([]);
+            setPreprocessStats(null);
+            setRecordingTime(sessionToLoad.duration ?? 0);
+            const loadedSegments = sessionToLoad.segments ?? textToSegments(sessionToLoad.text);
+            setSegments(loadedSegments);
+            setSpeakers(collectSpeakers(loadedSegments, sessionToLoad.speakers));
             setSessionName(sessionToLoad.name);
+            // A language that was picked by hand is kept for re-transcribing; a detected one is detected again.
+            setSpokenLanguage(sessionToLoad.language && !sessionToLoad.languageDetection ? sessionToLoad.language : AUTO_DETECT_LANGUAGE);
+            if (sessionToLoad.diarize !== undefined) setDiarize(sessionToLoad.diarize);
             setAudioBlob(null);
             if (audioUrl) URL.revokeObjectURL(audioUrl);
             setAudioUrl('');
             setError(null);
             setCopySuccess('');
-            runMetricsAnalysis(sessionToLoad.text);
+            setInsights(sessionToLoad.insights ?? null);
+            setShowInsights(!!sessionToLoad.insights);
+            setTranslations(sessionToLoad.translations ?? []);
+            setActiveTranslationLanguage(sessionToLoad.translations?.[0]?.language ?? null);
+            // Sessions saved before revisions were kept start with their saved transcript.
+            setRevisions(sessionToLoad.revisions ?? [{
+                id: `${sessionToLoad.id}-saved`,
+                date: sessionToLoad.date,
+                source: 'edit',
+                segments: loadedSegments,
+                speakers: collectSpeakers(loadedSegments, sessionToLoad.speakers),
+            }]);
+            setRestoredRevisionId(null);
+            setUncertainIndex(-1);
+            if (sessionToLoad.metrics) {
+                setMetrics(sessionToLoad.metrics);
+                setShowMetrics(true);
+            } else {
+                runMetricsAnalysis(transcriptToText(loadedSegments));
+            }
+
+            if (sessionToLoad.hasAudio) {
+                try {
+                    const storedAudio = await getAudio(sessionToLoad.id);
+                    if (storedAudio) {
+                        setAudioBlob(storedAudio);
+                        setAudioUrl(URL.createObjectURL(storedAudio));
+                    }
+                } catch (err) {
+                    console.error("Error loading session audio:", err);
+                    setError("The transcript was loaded, but its audio could not be read.");
+                }
+            }
+        }
+    };
+
+    const handleOpenSearchResult = async (result: SearchResult) => {
+        await handleLoadSession(result.session.id);
+        if (result.segmentIndex === null) return;
+        setTranscriptFocus({ segmentIndex: result.segmentIndex, start: result.matchStart, end: result.matchEnd });
+        const segment = result.session.segments?.[result.segmentIndex];
+        if (segment && segment.end > 0) pendingSeekRef.current = segment.start;
+    };
+
+    const handleSeek = (time: number) => {
+        if (!audioRef.current) return;
+        audioRef.current.currentTime = time;
+        setPlaybackTime(time);
+        audioRef.current.play().catch(() => { /* Autoplay may be blocked; seeking still succeeded. */ });
+    };
+
+    const handlePlayRegion = () => {
+        if (!audioRef.current || !region) return;
+        audioRef.current.currentTime = region.start;
+        regionEndRef.current = region.end;
+        audioRef.current.play().catch(() => { regionEndRef.current = null; });
+    };
+
+    // Replaces the recording with just the selected region, keeping the
+    // transcript lines that fall inside it.
+    const handleTrimToRegion = async () => {
+        if (!audioBlob || !region) return;
+        setIsTrimming(true);
+        setError(null);
+        try {
+            const trimmed = await extractRegion(audioBlob, region.start, region.end);
+            const shift = (segment: TranscriptSegment): TranscriptSegment => ({
+                ...segment,
+                start: Math.max(0, segment.start - region.start),
+                end: Math.min(region.end, segment.end) - region.start,
+            });
+            const kept = isTimed(segments) ? segmentIndicesInRange(segments, region.start, region.end) : segments.map((_, index) => index);
+            setSegments(kept.map(index => shift(segments[index])));
+            setTranslations(prev => prev.map(translation => ({
+                ...translation,
+                segments: kept.flatMap(index => (translation.segments[index] ? [shift(translation.segments[index])] : [])),
+            })));
+            setChunkStates([]);
+            setPreprocessStats(null);
+            setRecordingTime(Math.round(region.end - region.start));
+            setAudioBlob(trimmed);
+            if (audioUrl) URL.revokeObjectURL(audioUrl);
+            setAudioUrl(URL.createObjectURL(trimmed));
+        } catch (err) {
+            console.error("Trim error:", err);
+            setError("Failed to trim the recording.");
+        } finally {
+            setIsTrimming(false);
         }
     };
 
+    const handleTranscribeRegion = async () => {
+        if (!audioBlob || !region) return;
+        if (region.end - region.start > DEFAULT_CHUNK_OPTIONS.chunkSeconds) {
+            setError(`Select at most ${DEFAULT_CHUNK_OPTIONS.chunkSeconds / 60} minutes to transcribe a region, or transcribe the whole recording.`);
+            return;
+        }
+        setIsTranscribing(true);
+        setError(null);
+        try {
+            const regionBlob = await extractRegion(audioBlob, region.start, region.end);
+            const result = await provider.transcribe(await blobToBase64(regionBlob), regionBlob.type, {
+                language: spokenLanguageHint,
+                diarize: diarize && provider.capabilities.diarization,
+                vocabulary,
+            });
+            const updated = replaceSegmentsInRange(segments, region.start, region.end, offsetSegments(applyReplacements(result, replacements), region.start));
+            setSegments(updated);
+            setSpeakers(prev => collectSpeakers(updated, prev));
+            setRevisions(prev => appendRevision(prev, 'transcription', updated, collectSpeakers(updated, speakers), { provider: provider.id }));
+            // Translations are matched to segments by position, which no longer lines up.
+            setTranslations([]);
+            setActiveTranslationLanguage(null);
+        } catch (err) {
+            console.error("Region transcription error:", err);
+            setError(describeError(err, "Failed to transcribe the selected region. Please try again."));
+        } finally {
+            setIsTranscribing(false);
+        }
+    };
+
+    const handleEditSegment = (index: number, text: string) => {
+        setSegments(prev => prev.map((segment, i) => (i === index ? { ...segment, text } : segment)));
+    };
+
+    const goToUncertainWord = (index: number) => {
+        const word = uncertainWords[index];
+        if (!word) return;
+        setUncertainIndex(index);
+        setTranscriptFocus({ segmentIndex: word.segmentIndex, start: word.start, end: word.end });
+        const segment = segments[word.segmentIndex];
+        // Start a second early so the word is heard in context.
+        if (segment.end > 0) handleSeek(Math.max(segment.start, timeAtOffset(segment, word.start) - 1));
+    };
+
+    const handleNextUncertain = () => goToUncertainWord((uncertainIndex + 1) % uncertainWords.length);
+    const handlePreviousUncertain = () => goToUncertainWord(uncertainIndex <= 0 ? uncertainWords.length - 1 : uncertainIndex - 1);
+
+    // The word stays in the text; it is only removed from the segment's flagged list.
+    const handleDismissUncertain = () => {
+        const word = uncertainWords[uncertainIndex];
+        if (!word) return;
+        setSegments(prev => prev.map((segment, i) => {
+            if (i !== word.segmentIndex) return segment;
+            const uncertain = segment.uncertain?.filter((_, spanIndex) => spanIndex !== word.spanIndex);
+            return { ...segment, uncertain: uncertain?.length ? uncertain : undefined };
+        }));
+        // The next word moves into this position, so going forward again continues from here.
+        setUncertainIndex(uncertainIndex - 1);
+    };
+
+    const handleRenameSpeaker = (id: string, name: string) => {
+        setSpeakers(prev => ({ ...prev, [id]: name }));
+    };
+
     const handleDeleteSession = (id: string) => {
         setSavedSessions(prev => prev.filter(s => s.id !== id));
     };
 
+    const toggleSessionSelected = (id: string) => {
+        setSelectedSessionIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const updateSelectedSessions = (update: (session: Session) => Session) => {
+        const ids = new Set(selectedSessions.map(session => session.id));
+        setSavedSessions(prev => prev.map(session => (ids.has(session.id) ? update(session) : session)));
+    };
+
+    const handleBulkMove = (folder: string) => updateSelectedSessions(session => ({ ...session, folder: folder || undefined }));
+
+    const handleBulkTag = (tags: string[]) => updateSelectedSessions(session => addTags(session, tags));
+
+    const handleBulkExport = () => {
+        downloadFile(sessionsToMarkdown(selectedSessions), `sessions-${Date.now()}.md`, 'text/markdown');
+    };
+
+    const handleBulkDelete = () => {
+        const count = selectedSessions.length;
+        if (!window.confirm(`Delete ${count} session${count === 1 ? '' : 's'} and their recordings?`)) return;
+        const ids = new Set(selectedSessions.map(session => session.id));
+        setSavedSessions(prev => prev.filter(session => !ids.has(session.id)));
+        setSelectedSessionIds(new Set());
+    };
+
+    const handleRemoveTag = (id: string, tag: string) => {
+        setSavedSessions(prev => prev.map(session => (session.id === id ? removeTag(session, tag) : session)));
+    };
+
+    const handleExportLibrary = async () => {
+        setIsArchiving(true);
+        setError(null);
+        try {
+            const archive = await exportLibraryArchive(savedSessions, getAudio);
+            downloadFile(archive, `robo-ai-library-${new Date().toISOString().slice(0, 10)}.zip`, 'application/zip');
+        } catch (err) {
+            console.error("Error exporting library:", err);
+            setError("Failed to create the library backup.");
+        } finally {
+            setIsArchiving(false);
+        }
+    };
+
+    const applyLibraryImport = async (archive: LibraryArchive, mode: ImportMode, nameClash: NameClashAction = 'rename') => {
+        setPendingImport(null);
+        setIsArchiving(true);
+        try {
+            const existingIds = new Set(savedSessions.map(session => session.id));
+            const next = mergeLibrary(savedSessions, archive.sessions, mode, nameClash);
+            const importedIds = new Set(next.map(session => session.id));
+            const failedAudio = new Set<string>();
+            for (const [id, audio] of archive.audio) {
+                // Merging never touches sessions that were already here, including their audio,
+                // and sessions skipped for a clashing name bring none.
+                if ((mode === 'merge' && existingIds.has(id)) || !importedIds.has(id)) continue;
+                await putAudio(id, audio).catch(err => {
+                    console.error("Error restoring session audio:", err);
+                    failedAudio.add(id);
+                });
+            }
+            setSavedSessions(next.map(session => (failedAudio.has(session.id) ? { ...session, hasAudio: false } : session)));
+            if (activeSessionId && !next.some(session => session.id === activeSessionId)) setActiveSessionId(null);
+            setSelectedSessionIds(new Set());
+            setError(failedAudio.size > 0 ? `The library was imported, but ${failedAudio.size} recording${failedAudio.size === 1 ? '' : 's'} could not be stored.` : null);
+        } finally {
+            setIsArchiving(false);
+        }
+    };
+
+    const handleImportLibraryFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        let archive: LibraryArchive;
+        try {
+            archive = await readLibraryArchive(file);
+        } catch (err) {
+            console.error("Error reading library backup:", err);
+            setError(`Could not import the backup: ${err instanceof Error ? err.message : String(err)}`);
+            return;
+        }
+        // Nothing to merge with or replace, so there is nothing to ask.
+        if (savedSessions.length === 0) {
+            await applyLibraryImport(archive, 'merge');
+            return;
+        }
+        setPendingImport({ archive, conflicts: findImportConflicts(savedSessions, archive.sessions) });
+    };
+
     const handleStartEditingSession = (session: Session) => {
         setEditingSessionId(session.id);
         setEditingSessionName(session.name);
@@ -591,6 +2808,12 @@ const App: React.FC = () => {
                     event.preventDefault();
                     isRecording ? handleStopRecording() : handleStartRecording();
                     break;
+                case 'p':
+                    if (isRecording) {
+                        event.preventDefault();
+                        isPaused ? handleResumeRecording() : handlePauseRecording();
+                    }
+                    break;
                 case 't':
                      if (audioBlob && !isRecording && !isTranscribing) {
                         event.preventDefault();
@@ -624,7 +2847,7 @@ const App: React.FC = () => {
         return () => {
             window.removeEventListener('keydown', handleKeyDown);
         };
-    }, [isRecording, audioBlob, isTranscribing, transcribedText, handleStartRecording, handleStopRecording, handleTranscribe, handleCopyText, handleShare, handleDownloadText]);
+    }, [isRecording, isPaused, audioBlob, isTranscribing, transcribedText, handleStartRecording, handleStopRecording, handlePauseRecording, handleResumeRecording, handleTranscribe, handleCopyText, handleShare, handleDownloadText]);
 
 
 
@@ -643,6 +2866,9 @@ const App: React.FC = () => {
                         <button onClick={() => setShowHelpModal(true)} title="Help" className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500 transition-colors">
                             <HelpIcon />
                         </button>
+                        <button onClick={() => setShowSettingsModal(true)} title="Settings" className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500 transition-colors">
+                            <SettingsIcon />
+                        </button>
                         <button onClick={toggleTheme} title="Toggle Theme" className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500 transition-colors">
                             {theme === 'light' ? <MoonIcon /> : <SunIcon />}
                         </button>
@@ -651,44 +2877,231 @@ const App: React.FC = () => {
 
                 <div className="space-y-2">
                     <label htmlFor="language-select" className="text-lg font-semibold text-gray-700 dark:text-gray-300">
-                        Transcription Language
+                        Spoken Language
                     </label>
-                    <p className="text-sm text-gray-500 dark:text-gray-400">Select the language for the final transcription output.</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Choose the language of the recording, or let the AI detect it. The transcript is never translated.
+                    </p>
                     <select
                         id="language-select"
-                        value={targetLanguage}
-                        onChange={(e) => setTargetLanguage(e.target.value)}
+                        value={spokenLanguage}
+                        onChange={(e) => setSpokenLanguage(e.target.value)}
                         disabled={isRecording || isTranscribing}
                         className="w-full px-4 py-3 rounded-lg font-semibold bg-gray-100 dark:bg-gray-700 border-2 border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500 transition-colors disabled:opacity-50"
-                        aria-label="Select transcription language"
+                        aria-label="Select spoken language"
                     >
+                        <option value={AUTO_DETECT_LANGUAGE}>Auto-detect</option>
                         {languages.map(lang => (
                             <option key={lang.name} value={lang.name}>{lang.name}</option>
                         ))}
                     </select>
                 </div>
 
+                <label className={`flex items-center gap-3 text-gray-700 dark:text-gray-300 ${provider.capabilities.diarization ? 'cursor-pointer' : 'opacity-50'}`}>
+                    <input
+                        type="checkbox"
+                        checked={diarize && provider.capabilities.diarization}
+                        onChange={(e) => setDiarize(e.target.checked)}
+                        disabled={!provider.capabilities.diarization || isRecording || isTranscribing}
+                        className="w-4 h-4 accent-purple-600"
+                    />
+                    <span>
+                        <span className="font-semibold">Identify speakers</span>
+                        <span className="block text-sm text-gray-500 dark:text-gray-400">
+                            {provider.capabilities.diarization ? 'Label each segment with who is speaking. Rename speakers after transcription.' : `Not supported by the ${provider.name} provider.`}
+                        </span>
+                    </span>
+                </label>
+
+                <label className="flex items-center gap-3 text-gray-700 dark:text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={isLiveMode}
+                        onChange={(e) => setIsLiveMode(e.target.checked)}
+                        disabled={isRecording || isTranscribing}
+                        className="w-4 h-4 accent-purple-600"
+                    />
+                    <span>
+                        <span className="font-semibold">Live transcription</span>
+                        <span className="block text-sm text-gray-500 dark:text-gray-400">Show text while you speak. The full recording is transcribed again when you stop, to refine it.</span>
+                    </span>
+                </label>
+
+                <div className="space-y-2">
+                    <label className="flex items-center gap-3 text-gray-700 dark:text-gray-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={preprocessSettings.enabled}
+                            onChange={(e) => setPreprocessSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+                            disabled={isTranscribing}
+                            className="w-4 h-4 accent-purple-600"
+                        />
+                        <span>
+                            <span className="font-semibold">Clean up audio before upload</span>
+                            <span className="block text-sm text-gray-500 dark:text-gray-400">Processed on your device. Converts to mono at a lower sample rate, and can remove silence and even out the volume of quiet recordings.</span>
+                        </span>
+                    </label>
+                    {preprocessSettings.enabled && (
+                        <div className="ml-7 flex flex-wrap gap-x-4 gap-y-2 text-sm text-gray-600 dark:text-gray-400">
+                            {([
+                                ['trimSilence', 'Trim silence at start and end'],
+                                ['collapsePauses', `Shorten pauses over ${preprocessSettings.maxPauseSeconds} s`],
+                                ['normalize', 'Normalize loudness'],
+                            ] as const).map(([option, label]) => (
+                                <label key={option} className="flex items-center gap-1 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={preprocessSettings[option]}
+                                        onChange={(e) => setPreprocessSettings(prev => ({ ...prev, [option]: e.target.checked }))}
+                                        disabled={isTranscribing}
+                                        className="accent-purple-600"
+                                    />
+                                    {label}
+                                </label>
+                            ))}
+                            <select
+                                value={preprocessSettings.sampleRate}
+                                onChange={(e) => setPreprocessSettings(prev => ({ ...prev, sampleRate: Number(e.target.value) as PreprocessOptions['sampleRate'] }))}
+                                disabled={isTranscribing}
+                                className="px-2 py-0.5 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                                aria-label="Sample rate"
+                            >
+                                <option value={16000}>16 kHz</option>
+                                <option value={8000}>8 kHz (smallest)</option>
+                            </select>
+                        </div>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-[1fr,auto] gap-2">
+                    <select
+                        value={selectedInputId}
+                        onChange={(e) => setSelectedInputId(e.target.value)}
+                        disabled={isRecording}
+                        className="w-full px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 border-2 border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                        aria-label="Select microphone"
+                    >
+                        <option value="">Default microphone</option>
+                        {inputDevices.filter(device => device.deviceId && device.deviceId !== 'default').map((device, index) => (
+                            <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${index + 1}`}</option>
+                        ))}
+                        {selectedInputId && !inputDevices.some(device => device.deviceId === selectedInputId) && (
+                            <option value={selectedInputId}>Previously selected microphone (not connected)</option>
+                        )}
+                    </select>
+                    <select
+                        value={maxRecordingMinutes}
+                        onChange={(e) => setMaxRecordingMinutes(Number(e.target.value))}
+                        disabled={isRecording}
+                        className="w-full px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 border-2 border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                        aria-label="Maximum recording length"
+                    >
+                        {MAX_RECORDING_OPTIONS.map(minutes => (
+                            <option key={minutes} value={minutes}>{minutes === 0 ? 'No time limit' : `Stop after ${minutes} min`}</option>
+                        ))}
+                    </select>
+                </div>
+
                 <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
                     <button onClick={isRecording ? handleStopRecording : handleStartRecording} className={`flex items-center justify-center gap-2 px-6 py-3 rounded-full font-semibold transition-all duration-300 ease-in-out w-full sm:w-auto text-white ${isRecording ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500' : 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'} focus:outline-none focus:ring-4 focus:ring-opacity-50`}>
                         {isRecording ? <><StopIcon /> Stop</> : <><RecordIcon /> Record</>}
                     </button>
                     {isRecording && (
-                        <div className="font-mono text-lg text-red-500 dark:text-red-400 px-4 py-3 rounded-full bg-red-100 dark:bg-red-900/50">
-                            {formatTime(recordingTime)}
+                        <button onClick={isPaused ? handleResumeRecording : handlePauseRecording} className="flex items-center justify-center gap-2 px-6 py-3 rounded-full font-semibold w-full sm:w-auto text-white bg-yellow-500 hover:bg-yellow-600 focus:outline-none focus:ring-4 focus:ring-yellow-400 focus:ring-opacity-50">
+                            {isPaused ? <><RecordIcon /> Resume</> : <><PauseIcon /> Pause</>}
+                        </button>
+                    )}
+                    {isRecording && (
+                        <div className={`font-mono text-lg px-4 py-3 rounded-full ${isPaused ? 'text-yellow-600 dark:text-yellow-400 bg-yellow-100 dark:bg-yellow-900/50' : 'text-red-500 dark:text-red-400 bg-red-100 dark:bg-red-900/50'}`}>
+                            {formatTime(recordingTime)}{maxRecordingMinutes > 0 && ` / ${formatTime(maxRecordingMinutes * 60)}`}
                         </div>
                     )}
-                    <button onClick={handleTranscribe} disabled={!audioBlob || isRecording || isTranscribing} className="flex items-center justify-center gap-2 px-6 py-3 rounded-full font-semibold transition-all duration-300 ease-in-out w-full sm:w-auto bg-purple-600 hover:bg-purple-700 text-white disabled:bg-gray-500 dark:disabled:bg-gray-600 disabled:cursor-not-allowed focus:outline-none focus:ring-4 focus:ring-purple-500 focus:ring-opacity-50">
+                    <button onClick={() => handleTranscribe()} disabled={!audioBlob || isRecording || isTranscribing || isImporting} className="flex items-center justify-center gap-2 px-6 py-3 rounded-full font-semibold transition-all duration-300 ease-in-out w-full sm:w-auto bg-purple-600 hover:bg-purple-700 text-white disabled:bg-gray-500 dark:disabled:bg-gray-600 disabled:cursor-not-allowed focus:outline-none focus:ring-4 focus:ring-purple-500 focus:ring-opacity-50">
                         {isTranscribing ? <><LoadingSpinner /> Transcribing...</> : 'Transcribe'}
                     </button>
                 </div>
                 
+                {isRecording && (
+                    <div className="space-y-1">
+                        {activeInputLabel && <p className="text-xs text-gray-500 dark:text-gray-400">Recording from: <span className="font-semibold">{activeInputLabel}</span>{isPaused && ' (paused)'}</p>}
+                        <LevelMeter level={inputLevel} paused={isPaused} />
+                    </div>
+                )}
+
+                {!isRecording && (
+                    <div
+                        onDragOver={(e) => { e.preventDefault(); setIsDraggingFile(true); }}
+                        onDragLeave={() => setIsDraggingFile(false)}
+                        onDrop={handleFileDrop}
+                        onClick={() => !isTranscribing && !isImporting && fileInputRef.current?.click()}
+                        role="button"
+                        tabIndex={0}
+                        onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') fileInputRef.current?.click(); }}
+                        className={`flex flex-col items-center justify-center gap-1 p-4 rounded-lg border-2 border-dashed cursor-pointer transition-colors text-center ${isDraggingFile ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/30' : 'border-gray-300 dark:border-gray-600 hover:border-purple-400'}`}
+                    >
+                        {isImporting ? (
+                            <span className="flex items-center text-gray-600 dark:text-gray-400"><LoadingSpinner /> Reading file...</span>
+                        ) : (
+                            <>
+                                <span className="text-gray-500 dark:text-gray-400"><UploadIcon /></span>
+                                <span className="font-semibold text-gray-700 dark:text-gray-300">Drop an audio or video file, or click to browse</span>
+                                <span className="text-xs text-gray-500 dark:text-gray-400">MP3, WAV, M4A, OGG, WebM, FLAC or MP4 · audio up to {MAX_AUDIO_FILE_BYTES / (1024 * 1024)} MB, video up to {MAX_VIDEO_FILE_BYTES / (1024 * 1024)} MB</span>
+                            </>
+                        )}
+                        <input ref={fileInputRef} type="file" accept={ACCEPTED_FILE_TYPES} onChange={handleFileInputChange} className="hidden" />
+                    </div>
+                )}
+
                 {isRecording && <p className="text-center text-red-500 dark:text-red-400 animate-pulse">Recording in progress...</p>}
+                {preprocessStats && (
+                    <p className="text-sm text-center text-gray-600 dark:text-gray-400">
+                        Cleaned up audio: {formatTimestamp(preprocessStats.originalDuration)} → {formatTimestamp(preprocessStats.processedDuration)} long
+                        ({Math.round((1 - preprocessStats.processedDuration / Math.max(preprocessStats.originalDuration, Number.EPSILON)) * 100)}% shorter),
+                        {' '}{formatFileSize(preprocessStats.originalBytes)} → {formatFileSize(preprocessStats.processedBytes)} uploaded
+                        {preprocessStats.processedBytes < preprocessStats.originalBytes && ` (${Math.round((1 - preprocessStats.processedBytes / preprocessStats.originalBytes) * 100)}% smaller)`}.
+                    </p>
+                )}
+                {chunkStates.length > 1 && <ChunkProgress chunks={chunkStates} onRetry={handleRetryChunks} disabled={isTranscribing} />}
                 {error && <p className="text-center text-red-600 dark:text-red-500 bg-red-100 dark:bg-red-900/50 p-3 rounded-lg">{error}</p>}
 
                 {audioUrl && !isRecording && (
                     <div className="my-4 space-y-3">
                         <p className="text-sm font-semibold text-gray-600 dark:text-gray-400 text-center">Audio Playback</p>
-                        <audio controls src={audioUrl} className="w-full" />
+                        {waveform && (
+                            <div className="space-y-2">
+                                <WaveformView waveform={waveform} currentTime={playbackTime} region={region} onSeek={handleSeek} onRegionChange={setRegion} />
+                                {region ? (
+                                    <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+                                        <span className="font-mono text-gray-600 dark:text-gray-400">{formatTimestamp(region.start)} – {formatTimestamp(region.end)}</span>
+                                        <button onClick={handlePlayRegion} className="px-3 py-1 rounded-md font-medium text-blue-600 dark:text-blue-400 bg-blue-100 dark:bg-blue-900/50 hover:bg-blue-200 dark:hover:bg-blue-900">Play</button>
+                                        <button onClick={handleTrimToRegion} disabled={isTrimming || isTranscribing} className="px-3 py-1 rounded-md font-medium text-yellow-700 dark:text-yellow-400 bg-yellow-100 dark:bg-yellow-900/50 hover:bg-yellow-200 dark:hover:bg-yellow-900 disabled:opacity-50">{isTrimming ? 'Trimming...' : 'Trim'}</button>
+                                        <button onClick={handleTranscribeRegion} disabled={isTrimming || isTranscribing} className="px-3 py-1 rounded-md font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500">Transcribe region</button>
+                                        <button onClick={() => setRegion(null)} title="Clear selection" className="px-2 py-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">×</button>
+                                    </div>
+                                ) : (
+                                    <p className="text-xs text-center text-gray-500 dark:text-gray-400">Drag across the waveform to select a region.</p>
+                                )}
+                            </div>
+                        )}
+                        <audio
+                            ref={audioRef}
+                            controls
+                            src={audioUrl}
+                            onTimeUpdate={(e) => {
+                                setPlaybackTime(e.currentTarget.currentTime);
+                                if (regionEndRef.current !== null && e.currentTarget.currentTime >= regionEndRef.current) {
+                                    regionEndRef.current = null;
+                                    e.currentTarget.pause();
+                                }
+                            }}
+                            onPause={() => { regionEndRef.current = null; }}
+                            onLoadedMetadata={(e) => {
+                                if (pendingSeekRef.current === null) return;
+                                e.currentTarget.currentTime = pendingSeekRef.current;
+                                pendingSeekRef.current = null;
+                            }}
+                            className="w-full"
+                        />
                         {navigator.share && (
                              <button onClick={() => handleShare('audio')} title="Share Audio" className="w-full flex items-center justify-center gap-2 text-sm px-4 py-2 mt-2 rounded-md font-medium text-blue-600 dark:text-blue-400 bg-blue-100 dark:bg-blue-900/50 hover:bg-blue-200 dark:hover:bg-blue-900 transition-colors">
                                 <ShareIcon /> Share Audio
@@ -703,10 +3116,17 @@ const App: React.FC = () => {
                          {transcribedText && (
                             <div className="flex items-center gap-4">
                                 <button onClick={() => setShowMetrics(prev => !prev)} title="Show Metrics" className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"><MetricsIcon /></button>
+                                <button onClick={() => setShowInsights(prev => !prev)} title="Show Insights" aria-expanded={showInsights} className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400 hover:text-amber-700 dark:hover:text-amber-300 transition-colors"><InsightsIcon /></button>
+                                <button onClick={() => setShowTranslations(prev => !prev)} title="Show Translations" aria-expanded={showTranslations} className="flex items-center gap-2 text-sm text-teal-600 dark:text-teal-400 hover:text-teal-700 dark:hover:text-teal-300 transition-colors"><TranslateIcon /></button>
+                                <button onClick={() => setShowHistory(prev => !prev)} title="Show Revision History" aria-expanded={showHistory} className="flex items-center gap-2 text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 dark:hover:text-indigo-300 transition-colors"><HistoryIcon /></button>
+                                <button onClick={() => setShowRedaction(true)} title="Redact Personal Data" className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 transition-colors"><RedactIcon /></button>
                                 {navigator.share && (
                                     <button onClick={() => handleShare('text')} title="Share Text" className="flex items-center gap-2 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 transition-colors"><ShareIcon /></button>
                                 )}
-                                <button onClick={handleDownloadText} title="Download Text" className="flex items-center gap-2 text-sm text-green-600 dark:text-green-500 hover:text-green-700 dark:hover:text-green-400 transition-colors"><DownloadIcon /></button>
+                                <div className="relative">
+                                    <button onClick={() => setShowExportMenu(prev => !prev)} title="Export" aria-haspopup="menu" aria-expanded={showExportMenu} className="flex items-center gap-2 text-sm text-green-600 dark:text-green-500 hover:text-green-700 dark:hover:text-green-400 transition-colors"><DownloadIcon /></button>
+                                    {showExportMenu && <ExportMenu hasTimestamps={isTimed(segments)} onSelect={handleExport} onClose={() => setShowExportMenu(false)} />}
+                                </div>
                                 <button onClick={handleClearText} title="Clear Text" className="flex items-center gap-2 text-sm text-yellow-600 dark:text-yellow-500 hover:text-yellow-700 dark:hover:text-yellow-400 transition-colors"><ClearIcon /></button>
                                 <button onClick={handleCopyText} title="Copy Text" className="flex items-center gap-2 text-sm text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 transition-colors">
                                     {copySuccess ? copySuccess : <CopyIcon />}
@@ -714,96 +3134,270 @@ const App: React.FC = () => {
                             </div>
                         )}
                     </div>
-                    <textarea id="transcription" value={transcribedText} onChange={(e) => setTranscribedText(e.target.value)} placeholder="Your transcribed text will appear here..." className="w-full h-48 p-4 bg-gray-50 dark:bg-gray-900 border-2 border-gray-300 dark:border-gray-700 rounded-lg text-gray-800 dark:text-gray-300 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-y"/>
+                    {liveStatus !== 'idle' && (
+                        <p className="text-sm text-purple-600 dark:text-purple-400 animate-pulse">
+                            {liveStatus === 'listening' ? `Live transcript – updates every ${LIVE_SLICE_SECONDS} seconds.` : 'Finishing live transcript...'}
+                        </p>
+                    )}
+                    {languageDetection && liveStatus === 'idle' && (
+                        <div className={`p-3 rounded-lg text-sm space-y-2 ${languageDetection.confidence < LOW_LANGUAGE_CONFIDENCE ? 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-200' : 'bg-gray-100 dark:bg-gray-900/50 text-gray-700 dark:text-gray-300'}`}>
+                            <p>
+                                Detected language: <strong>{languageDetection.language}</strong> ({Math.round(languageDetection.confidence * 100)}% confidence)
+                                {languageDetection.languages.length > 1 && (
+                                    <> · Mixed: {languageDetection.languages.map(({ language, share }) => `${language} ${Math.round(share * 100)}%`).join(', ')}</>
+                                )}
+                            </p>
+                            {audioBlob && (
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <span>Not right? Transcribe again as</span>
+                                    <select
+                                        value={rerunLanguage}
+                                        onChange={(e) => setRerunLanguage(e.target.value)}
+                                        disabled={isTranscribing}
+                                        className="px-2 py-1 rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                        aria-label="Language to transcribe again as"
+                                    >
+                                        {languages.map(lang => (
+                                            <option key={lang.name} value={lang.name}>{lang.name}</option>
+                                        ))}
+                                    </select>
+                                    <button onClick={handleRerunWithLanguage} disabled={isTranscribing} className="px-3 py-1 rounded-md font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed">
+                                        Re-run
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    {Object.keys(speakers).length > 0 && <SpeakerTable speakers={speakers} onRename={handleRenameSpeaker} />}
+                    {hasConfidence && (
+                        <UncertainWordsBar
+                            words={uncertainWords}
+                            currentIndex={uncertainIndex}
+                            threshold={confidenceThreshold}
+                            onThresholdChange={setConfidenceThreshold}
+                            onPrevious={handlePreviousUncertain}
+                            onNext={handleNextUncertain}
+                            onDismiss={handleDismissUncertain}
+                        />
+                    )}
+                    <TranscriptSegmentList
+                        segments={segments}
+                        speakers={speakers}
+                        mainLanguage={languageDetection?.language}
+                        activeIndex={activeSegmentIndex}
+                        focus={transcriptFocus}
+                        uncertainWords={uncertainWords}
+                        currentUncertain={uncertainWords[uncertainIndex] ?? null}
+                        onSeek={handleSeek}
+                        onEdit={handleEditSegment}
+                    />
                     
-                    <div className={`transition-all duration-500 ease-in-out overflow-hidden ${showMetrics ? 'max-h-[500px] opacity-100' : 'max-h-0 opacity-0'}`}>
-                        {isAnalyzingMetrics ? (
-                            <div className="flex justify-center items-center p-4 bg-gray-100 dark:bg-gray-900/50 rounded-lg">
-                                <svg className="animate-spin h-5 w-5 text-purple-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                                <span className="ml-3 text-gray-600 dark:text-gray-400">Analyzing metrics...</span>
+                    <div className={`transition-all duration-500 ease-in-out overflow-hidden ${showMetrics && transcribedText ? 'max-h-[900px] opacity-100' : 'max-h-0 opacity-0'}`}>
+                        <div className="bg-gray-100 dark:bg-gray-900/50 p-4 rounded-lg space-y-6">
+                            <h3 className="text-md font-semibold text-center text-gray-700 dark:text-gray-300">Transcription Metrics</h3>
+
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                                <MetricItem label="Words" value={textStats.wordCount} />
+                                <MetricItem label="Characters" value={textStats.characterCount} />
+                                <MetricItem label="Sentences" value={textStats.sentenceCount} />
+                                <MetricItem label="Paragraphs" value={textStats.paragraphCount} />
+                                <MetricItem label="Reading Time" value={formatTime(textStats.readingTimeSeconds)} />
+                                <MetricItem label="Words / Min" value={textStats.wordsPerMinute ?? '–'} />
+                                <MetricItem label="Filler Words" value={textStats.fillerCount} />
+                                <MetricItem label="Vocabulary Diversity" value={`${Math.round(textStats.vocabularyDiversity * 100)}%`} />
                             </div>
-                        ) : metrics ? (() => {
-                            const posData = [
-                                { name: 'Verbs', value: metrics.verbCount },
-                                { name: 'Nouns', value: metrics.nounCount },
-                                { name: 'Adjectives', value: metrics.adjectiveCount },
-                                { name: 'Conjunctions', value: metrics.conjunctionCount },
-                            ].filter(item => item.value > 0);
-
-                            const COLORS = ['#8884d8', '#82ca9d', '#FFBB28', '#FF8042', '#AF19FF'];
+                            {textStats.fillerCount > 0 && (
+                                <p className="text-xs text-center text-gray-500 dark:text-gray-400">
+                                    {Object.entries(textStats.fillers).map(([filler, count]) => `"${filler}" × ${count}`).join(', ')}
+                                </p>
+                            )}
+
+                            {isAnalyzingMetrics ? (
+                                <div className="flex justify-center items-center p-4">
+                                    <svg className="animate-spin h-5 w-5 text-purple-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                                    <span className="ml-3 text-gray-600 dark:text-gray-400">Analyzing metrics...</span>
+                                </div>
+                            ) : metrics ? (() => {
+                                const posData = [
+                                    { name: 'Verbs', value: metrics.verbCount },
+                                    { name: 'Nouns', value: metrics.nounCount },
+                                    { name: 'Adjectives', value: metrics.adjectiveCount },
+                                    { name: 'Conjunctions', value: metrics.conjunctionCount },
+                                ].filter(item => item.value > 0);
+
+                                const COLORS = ['#8884d8', '#82ca9d', '#FFBB28', '#FF8042', '#AF19FF'];
                            
-                            const RADIAN = Math.PI / 180;
-                            const renderCustomizedLabel = ({ cx, cy, midAngle, innerRadius, outerRadius, percent, index }: any) => {
-                                const radius = innerRadius + (outerRadius - innerRadius) * 0.5;
-                                const x = cx + radius * Math.cos(-midAngle * RADIAN);
-                                const y = cy + radius * Math.sin(-midAngle * RADIAN);
+                                const RADIAN = Math.PI / 180;
+                                const renderCustomizedLabel = ({ cx, cy, midAngle, innerRadius, outerRadius, percent, index }: any) => {
+                                    const radius = innerRadius + (outerRadius - innerRadius) * 0.5;
+                                    const x = cx + radius * Math.cos(-midAngle * RADIAN);
+                                    const y = cy + radius * Math.sin(-midAngle * RADIAN);
+
+                                    if (percent < 0.05) return null; // Don't render label for small slices
 
-                                if (percent < 0.05) return null; // Don't render label for small slices
+                                    return (
+                                        <text x={x} y={y} fill="white" textAnchor={x > cx ? 'start' : 'end'} dominantBaseline="central" className="text-xs font-bold">
+                                            {`${(percent * 100).toFixed(0)}%`}
+                                        </text>
+                                    );
+                                };
 
                                 return (
-                                    <text x={x} y={y} fill="white" textAnchor={x > cx ? 'start' : 'end'} dominantBaseline="central" className="text-xs font-bold">
-                                        {`${(percent * 100).toFixed(0)}%`}
-                                    </text>
+                                    <div className="space-y-6">
+                                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                                            <MetricItem label="Profanity" value={metrics.profanityCount} />
+                                        </div>
+                                        {posData.length > 0 && (
+                                            <div className="pt-4">
+                                                <h4 className="text-sm font-semibold mb-2 text-center text-gray-600 dark:text-gray-400">Part-of-Speech Distribution</h4>
+                                                <div style={{ width: '100%', height: 250 }}>
+                                                    <ResponsiveContainer>
+                                                        <PieChart>
+                                                            <Pie
+                                                                data={posData}
+                                                                cx="50%"
+                                                                cy="50%"
+                                                                labelLine={false}
+                                                                label={renderCustomizedLabel}
+                                                                outerRadius={100}
+                                                                fill="#8884d8"
+                                                                dataKey="value"
+                                                                nameKey="name"
+                                                            >
+                                                                {posData.map((entry, index) => (
+                                                                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} className="focus:outline-none" />
+                                                                ))}
+                                                            </Pie>
+                                                            <Tooltip
+                                                                contentStyle={{
+                                                                    backgroundColor: theme === 'dark' ? 'rgba(31, 41, 55, 0.9)' : 'rgba(255, 255, 255, 0.9)',
+                                                                    borderColor: theme === 'dark' ? '#4B5563' : '#D1D5DB',
+                                                                    borderRadius: '0.5rem',
+                                                                }}
+                                                            />
+                                                            <Legend iconSize={12} wrapperStyle={{ fontSize: '14px', paddingTop: '10px' }} />
+                                                        </PieChart>
+                                                    </ResponsiveContainer>
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
                                 );
-                            };
+                            })() : provider.capabilities.metrics ? (
+                                <div className="text-center">
+                                    <button onClick={() => runMetricsAnalysis(transcribedText)} className="px-3 py-1 text-sm rounded-md font-medium text-white bg-purple-600 hover:bg-purple-700">
+                                        Analyze parts of speech
+                                    </button>
+                                </div>
+                            ) : null}
+                        </div>
+                    </div>
 
-                            return (
-                                <div className="bg-gray-100 dark:bg-gray-900/50 p-4 rounded-lg space-y-6">
-                                    <h3 className="text-md font-semibold text-center text-gray-700 dark:text-gray-300">Transcription Metrics</h3>
-                                    
-                                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-center">
-                                        <MetricItem label="Words" value={metrics.wordCount} />
-                                        <MetricItem label="Characters" value={metrics.characterCount} />
-                                        <MetricItem label="Profanity" value={metrics.profanityCount} />
-                                    </div>
+                    <div className={`transition-all duration-500 ease-in-out overflow-hidden ${showInsights && transcribedText ? 'max-h-[1200px] opacity-100' : 'max-h-0 opacity-0'}`}>
+                        <InsightsPanel
+                            insights={insights}
+                            isGenerating={isGeneratingInsights}
+                            supported={provider.capabilities.insights}
+                            onGenerate={handleGenerateInsights}
+                        />
+                    </div>
 
-                                    {posData.length > 0 && (
-                                        <div className="pt-4">
-                                            <h4 className="text-sm font-semibold mb-2 text-center text-gray-600 dark:text-gray-400">Part-of-Speech Distribution</h4>
-                                            <div style={{ width: '100%', height: 250 }}>
-                                                <ResponsiveContainer>
-                                                    <PieChart>
-                                                        <Pie
-                                                            data={posData}
-                                                            cx="50%"
-                                                            cy="50%"
-                                                            labelLine={false}
-                                                            label={renderCustomizedLabel}
-                                                            outerRadius={100}
-                                                            fill="#8884d8"
-                                                            dataKey="value"
-                                                            nameKey="name"
-                                                        >
-                                                            {posData.map((entry, index) => (
-                                                                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} className="focus:outline-none" />
-                                                            ))}
-                                                        </Pie>
-                                                        <Tooltip
-                                                            contentStyle={{
-                                                                backgroundColor: theme === 'dark' ? 'rgba(31, 41, 55, 0.9)' : 'rgba(255, 255, 255, 0.9)',
-                                                                borderColor: theme === 'dark' ? '#4B5563' : '#D1D5DB',
-                                                                borderRadius: '0.5rem',
-                                                            }}
-                                                        />
-                                                        <Legend iconSize={12} wrapperStyle={{ fontSize: '14px', paddingTop: '10px' }} />
-                                                    </PieChart>
-                                                </ResponsiveContainer>
-                                            </div>
-                                        </div>
-                                    )}
+                    {showHistory && (transcribedText || revisions.length > 0) && (
+                        <div className="bg-gray-100 dark:bg-gray-900/50 p-4 rounded-lg space-y-3">
+                            <h3 className="text-md font-semibold text-gray-700 dark:text-gray-300">Revision History</h3>
+                            <RevisionHistory revisions={revisions} currentText={transcribedText} onRestore={handleRestoreRevision} />
+                            {restoredRevisionId && <p className="text-xs text-gray-500 dark:text-gray-400">A revision was restored. Save or update the session to keep it.</p>}
+                        </div>
+                    )}
+
+                    {showTranslations && transcribedText && (() => {
+                        const activeTranslation = translations.find(translation => translation.language === activeTranslationLanguage);
+                        return (
+                            <div className="bg-gray-100 dark:bg-gray-900/50 p-4 rounded-lg space-y-4">
+                                <h3 className="text-md font-semibold text-gray-700 dark:text-gray-300">Translations</h3>
+                                <div className="flex flex-col sm:flex-row gap-2">
+                                    <select
+                                        value={targetLanguage}
+                                        onChange={(e) => setTargetLanguage(e.target.value)}
+                                        disabled={isTranslating}
+                                        className="flex-grow px-3 py-2 rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                                        aria-label="Select translation language"
+                                    >
+                                        {languages.map(lang => (
+                                            <option key={lang.name} value={lang.name}>{lang.name}</option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        onClick={handleTranslate}
+                                        disabled={isTranslating || !provider.capabilities.translation}
+                                        title={provider.capabilities.translation ? undefined : `The ${provider.name} provider cannot translate`}
+                                        className="flex items-center justify-center px-4 py-2 rounded-md font-medium text-white bg-teal-600 hover:bg-teal-700 disabled:bg-gray-500 dark:disabled:bg-gray-600 disabled:cursor-not-allowed"
+                                    >
+                                        {isTranslating ? <><LoadingSpinner /> Translating...</> : translations.some(translation => translation.language === targetLanguage) ? 'Translate again' : 'Translate'}
+                                    </button>
                                 </div>
-                            )
-                        })() : null}
-                    </div>
+                                {translations.length > 0 && (
+                                    <div className="flex flex-wrap gap-2" role="tablist" aria-label="Translations">
+                                        {translations.map(translation => (
+                                            <span key={translation.language} className={`flex items-center rounded-full text-sm ${translation.language === activeTranslationLanguage ? 'bg-teal-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}>
+                                                <button role="tab" aria-selected={translation.language === activeTranslationLanguage} onClick={() => setActiveTranslationLanguage(translation.language)} className="pl-3 pr-1 py-1">
+                                                    {translation.language}
+                                                </button>
+                                                <button onClick={() => handleDeleteTranslation(translation.language)} title={`Delete ${translation.language} translation`} className="pr-3 pl-1 py-1 opacity-70 hover:opacity-100">×</button>
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                                {activeTranslation && (
+                                    <TranslationColumns segments={segments} speakers={speakers} translation={activeTranslation} activeIndex={activeSegmentIndex} onSeek={handleSeek} />
+                                )}
+                            </div>
+                        );
+                    })()}
                 </div>
                 
                 <div className="space-y-4 bg-gray-100 dark:bg-gray-900/50 p-4 rounded-lg">
+                    {sessionStorageError && <p className="text-sm text-red-600 dark:text-red-400">{sessionStorageError}</p>}
+                    {loadedSession?.provider && (() => {
+                        const sessionProvider = PROVIDER_OPTIONS.find(option => option.id === loadedSession.provider);
+                        const name = sessionProvider?.name ?? loadedSession.provider;
+                        return (
+                            <p className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                                Transcribed with {name}.
+                                {/* Re-transcription and analysis use the current provider, so offer to switch back to the session's. */}
+                                {sessionProvider && loadedSession.provider !== providerSettings.providerId && (
+                                    <button onClick={() => setProviderSettings(prev => ({ ...prev, providerId: sessionProvider.id }))} className="px-2 py-0.5 rounded-md text-purple-600 dark:text-purple-400 border border-purple-300 dark:border-purple-700 hover:bg-purple-50 dark:hover:bg-purple-900/30">
+                                        Use {name} again (currently {provider.name})
+                                    </button>
+                                )}
+                            </p>
+                        );
+                    })()}
                     <input type="text" value={sessionName} onChange={(e) => setSessionName(e.target.value)} placeholder="Enter session name to save..." className="w-full p-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500"/>
-                    <button onClick={handleSaveSession} disabled={!transcribedText.trim()} className="w-full px-4 py-2 font-bold text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-gray-500 dark:disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-green-500">
-                        Save Session
-                    </button>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        {loadedSession && (
+                            <button onClick={handleUpdateSession} disabled={!transcribedText.trim()} className="flex-1 px-4 py-2 font-bold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-500 dark:disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500">
+                                Update Session
+                            </button>
+                        )}
+                        <button onClick={handleSaveSession} disabled={!transcribedText.trim()} className="flex-1 px-4 py-2 font-bold text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-gray-500 dark:disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-green-500">
+                            {loadedSession ? 'Save as New Session' : 'Save Session'}
+                        </button>
+                    </div>
                 </div>
 
+                <JobQueuePanel
+                    jobs={jobs}
+                    concurrency={batchConcurrency}
+                    onConcurrencyChange={setBatchConcurrency}
+                    onAddFiles={handleAddBatchFiles}
+                    onAddCurrent={audioBlob && !isRecording ? handleAddCurrentToQueue : null}
+                    onRetry={jobQueue.retry}
+                    onRemove={jobQueue.remove}
+                    onClearFinished={jobQueue.clearFinished}
+                    onOpen={handleLoadSession}
+                />
+
                 <div className="space-y-2">
                     <button
                         onClick={() => setIsSessionsExpanded(prev => !prev)}
@@ -816,12 +3410,82 @@ const App: React.FC = () => {
                     </button>
                     <div
                         id="sessions-list-container"
-                        className={`transition-all duration-300 ease-in-out overflow-hidden ${isSessionsExpanded ? 'max-h-96' : 'max-h-0'}`}
+                        className={`transition-all duration-300 ease-in-out overflow-hidden ${isSessionsExpanded ? 'max-h-[48rem]' : 'max-h-0'}`}
                     >
-                        {savedSessions.length > 0 ? (
-                            <div className="max-h-60 overflow-y-auto space-y-2 pr-2 py-2">
-                                {savedSessions.map(session => (
-                                    <div key={session.id} className="bg-gray-100 dark:bg-gray-900/50 p-3 rounded-lg flex justify-between items-center gap-2">
+                        <div className="flex justify-end items-center gap-3 pt-2 text-sm">
+                            {isArchiving && <span className="flex items-center text-gray-500 dark:text-gray-400"><LoadingSpinner /> Working...</span>}
+                            <button onClick={handleExportLibrary} disabled={isArchiving || savedSessions.length === 0} className="flex items-center gap-1 text-purple-600 dark:text-purple-300 hover:underline disabled:opacity-50 disabled:no-underline">
+                                <DownloadIcon /> Back up library
+                            </button>
+                            <button onClick={() => libraryInputRef.current?.click()} disabled={isArchiving} className="flex items-center gap-1 text-purple-600 dark:text-purple-300 hover:underline disabled:opacity-50 disabled:no-underline">
+                                <UploadIcon /> Restore backup
+                            </button>
+                            <input ref={libraryInputRef} type="file" accept=".zip,application/zip" onChange={handleImportLibraryFile} className="hidden" />
+                        </div>
+                        {savedSessions.length > 0 && (
+                            <input
+                                type="search"
+                                value={searchQuery}
+                                onChange={(e) => setSearchQuery(e.target.value)}
+                                placeholder="Search session names, tags and transcripts..."
+                                aria-label="Search sessions"
+                                className="w-full mt-2 p-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            />
+                        )}
+                        {savedSessions.length > 0 && (
+                            <LibraryFilters view={libraryView} onChange={setLibraryView} folders={libraryFolders} tags={libraryTags} languages={libraryLanguages} />
+                        )}
+                        {selectedSessions.length > 0 && (
+                            <div className="pt-2">
+                                <BulkActions
+                                    count={selectedSessions.length}
+                                    folders={libraryFolders}
+                                    onMove={handleBulkMove}
+                                    onTag={handleBulkTag}
+                                    onExport={handleBulkExport}
+                                    onDelete={handleBulkDelete}
+                                    onClearSelection={() => setSelectedSessionIds(new Set())}
+                                />
+                            </div>
+                        )}
+                        {searchQuery.trim() ? (
+                            searchResults.length > 0 ? (
+                                <div className="max-h-60 overflow-y-auto space-y-2 pr-2 py-2">
+                                    {searchResults.map(result => (
+                                        <button
+                                            key={result.session.id}
+                                            onClick={() => handleOpenSearchResult(result)}
+                                            className="w-full text-left bg-gray-100 dark:bg-gray-900/50 p-3 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                        >
+                                            <p className="font-semibold text-purple-600 dark:text-purple-300 truncate">{result.session.name}</p>
+                                            <p className="text-xs text-gray-500">{new Date(result.session.date).toLocaleString()}</p>
+                                            <p className="text-sm text-gray-700 dark:text-gray-300 mt-1"><HighlightedText text={result.snippet} highlights={result.highlights} /></p>
+                                        </button>
+                                    ))}
+                                </div>
+                            ) : (
+                                <p className="text-gray-500 text-center py-4">No sessions match "{searchQuery.trim()}".</p>
+                            )
+                        ) : visibleSessions.length > 0 ? (
+                            <div className="max-h-96 overflow-y-auto space-y-2 pr-2 py-2">
+                                <label className="flex items-center gap-2 px-3 text-sm text-gray-600 dark:text-gray-400">
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedSessions.length === visibleSessions.length}
+                                        onChange={(e) => setSelectedSessionIds(e.target.checked ? new Set(visibleSessions.map(session => session.id)) : new Set())}
+                                        className="accent-purple-600"
+                                    />
+                                    Select all {visibleSessions.length}{visibleSessions.length < savedSessions.length && ` of ${savedSessions.length}`}
+                                </label>
+                                {visibleSessions.map(session => (
+                                    <div key={session.id} className={`p-3 rounded-lg flex justify-between items-center gap-2 ${selectedSessionIds.has(session.id) ? 'bg-purple-50 dark:bg-purple-900/30' : 'bg-gray-100 dark:bg-gray-900/50'}`}>
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedSessionIds.has(session.id)}
+                                            onChange={() => toggleSessionSelected(session.id)}
+                                            aria-label={`Select ${session.name}`}
+                                            className="flex-shrink-0 accent-purple-600"
+                                        />
                                         {editingSessionId === session.id ? (
                                             <input
                                                 type="text"
@@ -837,7 +3501,23 @@ const App: React.FC = () => {
                                         ) : (
                                             <div className="flex-grow overflow-hidden">
                                                 <p className="font-semibold text-purple-600 dark:text-purple-300 truncate" title={session.name}>{session.name}</p>
-                                                <p className="text-xs text-gray-500">{new Date(session.date).toLocaleString()}</p>
+                                                <p className="text-xs text-gray-500">
+                                                    {new Date(session.date).toLocaleString()}
+                                                    {session.duration ? ` · ${formatTimestamp(session.duration)}` : ''}
+                                                    {session.language ? ` · ${session.language}` : ''}
+                                                    {session.folder && libraryView.folder === null ? ` · ${session.folder}` : ''}
+                                                    {session.redacted ? ' · Redacted' : ''}
+                                                </p>
+                                                {session.tags && session.tags.length > 0 && (
+                                                    <div className="flex flex-wrap gap-1 mt-1">
+                                                        {session.tags.map(tag => (
+                                                            <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                                                                {tag}
+                                                                <button onClick={() => handleRemoveTag(session.id, tag)} aria-label={`Remove tag ${tag}`} className="hover:text-red-500">×</button>
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                )}
                                             </div>
                                         )}
                                         <div className="flex gap-2 flex-shrink-0">
@@ -857,6 +3537,8 @@ const App: React.FC = () => {
                                     </div>
                                 ))}
                             </div>
+                        ) : savedSessions.length > 0 ? (
+                            <p className="text-gray-500 text-center py-4">No sessions match these filters.</p>
                         ) : (
                             <p className="text-gray-500 text-center py-4">No sessions saved yet.</p>
                         )}
@@ -864,8 +3546,42 @@ const App: React.FC = () => {
                 </div>
             </div>
             {showHelpModal && <HelpModal onClose={() => setShowHelpModal(false)} />}
+            {showRedaction && (
+                <RedactionModal
+                    segments={segments}
+                    speakers={speakers}
+                    provider={provider}
+                    maskStyle={redactionMaskStyle}
+                    onMaskStyleChange={setRedactionMaskStyle}
+                    isSessionSaved={!!loadedSession}
+                    onSave={handleSaveRedactedCopy}
+                    onDownload={(text) => downloadFile(text, `transcription-redacted-${Date.now()}.txt`, 'text/plain')}
+                    onShare={(text) => shareText(text, 'Transcription (redacted)')}
+                    onClose={() => setShowRedaction(false)}
+                />
+            )}
+            {pendingImport && (
+                <ImportLibraryModal
+                    archive={pendingImport.archive}
+                    conflicts={pendingImport.conflicts}
+                    library={savedSessions}
+                    onImport={(mode, nameClash) => applyLibraryImport(pendingImport.archive, mode, nameClash)}
+                    onClose={() => setPendingImport(null)}
+                />
+            )}
+            {showSettingsModal && (
+                <SettingsModal
+                    settings={providerSettings}
+                    onChange={setProviderSettings}
+                    glossarySettings={glossarySettings}
+                    onGlossarySettingsChange={setGlossarySettings}
+                    onExportGlossary={handleExportGlossary}
+                    onImportGlossary={handleImportGlossary}
+                    onClose={() => setShowSettingsModal(false)}
+                />
+            )}
             <footer className="text-center mt-8 text-gray-600 dark:text-gray-500 text-sm">
-                <p>Powered by Gemini API</p>
+                <p>{provider.id === 'gemini' ? 'Powered by Gemini API' : `Using ${provider.name} provider`}</p>
             </footer>
         </div>
     );
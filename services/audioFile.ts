@@ -0,0 +1,187 @@
+// Helpers for importing existing recordings from disk.
+
+const AUDIO_TYPES_BY_EXTENSION: Record<string, string> = {
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    m4a: 'audio/mp4',
+    aac: 'audio/aac',
+    ogg: 'audio/ogg',
+    oga: 'audio/ogg',
+    opus: 'audio/ogg',
+    webm: 'audio/webm',
+    flac: 'audio/flac',
+};
+
+const VIDEO_TYPES_BY_EXTENSION: Record<string, string> = {
+    mp4: 'video/mp4',
+    m4v: 'video/mp4',
+    mov: 'video/quicktime',
+};
+
+// Browsers report several aliases for the same formats.
+const MIME_ALIASES: Record<string, string> = {
+    'audio/mp3': 'audio/mpeg',
+    'audio/x-wav': 'audio/wav',
+    'audio/wave': 'audio/wav',
+    'audio/vnd.wave': 'audio/wav',
+    'audio/x-m4a': 'audio/mp4',
+    'audio/m4a': 'audio/mp4',
+    'audio/x-aac': 'audio/aac',
+    'audio/x-flac': 'audio/flac',
+    'video/webm': 'audio/webm',
+};
+
+const SUPPORTED_AUDIO_TYPES = new Set(Object.values(AUDIO_TYPES_BY_EXTENSION));
+const SUPPORTED_VIDEO_TYPES = new Set(Object.values(VIDEO_TYPES_BY_EXTENSION));
+
+// Long recordings are split into chunks before upload, so these limits only
+// guard against files too large to decode in the browser.
+export const MAX_AUDIO_FILE_BYTES = 200 * 1024 * 1024;
+// Video files are larger, but only the extracted audio track is kept.
+export const MAX_VIDEO_FILE_BYTES = 500 * 1024 * 1024;
+
+export const ACCEPTED_FILE_TYPES = [
+    ...Object.keys(AUDIO_TYPES_BY_EXTENSION).map(ext => `.${ext}`),
+    ...Object.keys(VIDEO_TYPES_BY_EXTENSION).map(ext => `.${ext}`),
+    ...SUPPORTED_AUDIO_TYPES,
+    ...SUPPORTED_VIDEO_TYPES,
+].join(',');
+
+export type MediaKind = 'audio' | 'video';
+
+export interface DetectedMedia {
+    kind: MediaKind;
+    mimeType: string;
+}
+
+// The usual file extension for an audio MIME type, for naming recordings written to disk.
+export const audioExtension = (mimeType: string): string => {
+    const baseType = mimeType.split(';')[0].trim();
+    const normalized = MIME_ALIASES[baseType] ?? baseType;
+    return Object.keys(AUDIO_TYPES_BY_EXTENSION).find(ext => AUDIO_TYPES_BY_EXTENSION[ext] === normalized) ?? 'bin';
+};
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+
+// Uses the reported MIME type when the browser provides a recognised one and
+// falls back to the file extension, since some platforms leave `file.type` empty.
+export const detectMediaType = (file: File): DetectedMedia | null => {
+    const reported = MIME_ALIASES[file.type] ?? file.type;
+    if (SUPPORTED_AUDIO_TYPES.has(reported)) return { kind: 'audio', mimeType: reported };
+    if (SUPPORTED_VIDEO_TYPES.has(reported)) return { kind: 'video', mimeType: reported };
+
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    if (AUDIO_TYPES_BY_EXTENSION[extension]) return { kind: 'audio', mimeType: AUDIO_TYPES_BY_EXTENSION[extension] };
+    if (VIDEO_TYPES_BY_EXTENSION[extension]) return { kind: 'video', mimeType: VIDEO_TYPES_BY_EXTENSION[extension] };
+    return null;
+};
+
+// Returns a user-facing error message, or null when the file can be imported.
+export const validateMediaFile = (file: File): string | null => {
+    const media = detectMediaType(file);
+    if (!media) {
+        return `"${file.name}" is not a supported file. Use MP3, WAV, M4A, OGG, WebM, FLAC or an MP4 video.`;
+    }
+    if (file.size === 0) {
+        return `"${file.name}" is empty.`;
+    }
+    const limit = media.kind === 'video' ? MAX_VIDEO_FILE_BYTES : MAX_AUDIO_FILE_BYTES;
+    if (file.size > limit) {
+        return `"${file.name}" is ${formatMegabytes(file.size)}, which exceeds the ${formatMegabytes(limit)} limit for ${media.kind} files.`;
+    }
+    return null;
+};
+
+// Encodes decoded audio as 16-bit PCM WAV.
+export const encodeWav = (buffer: AudioBuffer): Blob => {
+    const channels = buffer.numberOfChannels;
+    const sampleRate = buffer.sampleRate;
+    const frames = buffer.length;
+    const dataSize = frames * channels * 2;
+    const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, channels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * channels * 2, true);
+    view.setUint16(32, channels * 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    const channelData = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel));
+    let offset = 44;
+    for (let frame = 0; frame < frames; frame++) {
+        for (let channel = 0; channel < channels; channel++) {
+            const sample = Math.max(-1, Math.min(1, channelData[channel][frame]));
+            view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+            offset += 2;
+        }
+    }
+    return new Blob([view], { type: 'audio/wav' });
+};
+
+// Target rate for extracted tracks; plenty for speech and keeps WAV output small.
+const EXTRACTED_SAMPLE_RATE = 16000;
+
+// Decoding at a low sample rate keeps memory use manageable for hour-long recordings.
+export const decodeAudio = async (blob: Blob, sampleRate?: number): Promise<AudioBuffer> => {
+    const context = new AudioContext(sampleRate ? { sampleRate } : undefined);
+    try {
+        return await context.decodeAudioData(await blob.arrayBuffer());
+    } finally {
+        context.close();
+    }
+};
+
+// Averages all channels between two times (in seconds) into a new mono buffer.
+export const mixToMono = (buffer: AudioBuffer, start = 0, end = buffer.duration): AudioBuffer => {
+    const from = Math.max(0, Math.floor(start * buffer.sampleRate));
+    const to = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+    const mono = new AudioBuffer({ length: Math.max(1, to - from), numberOfChannels: 1, sampleRate: buffer.sampleRate });
+    const output = mono.getChannelData(0);
+    for (let i = from; i < to; i++) {
+        let sum = 0;
+        for (const data of channels) sum += data[i];
+        output[i - from] = sum / channels.length;
+    }
+    return mono;
+};
+
+// Cuts the part of a recording between `start` and `end` seconds out as 16 kHz mono WAV.
+export const extractRegion = async (blob: Blob, start: number, end: number): Promise<Blob> =>
+    encodeWav(mixToMono(await decodeAudio(blob, EXTRACTED_SAMPLE_RATE), start, end));
+
+// Decodes the audio track of a video file and re-encodes it as mono WAV.
+export const extractAudioTrack = async (file: Blob): Promise<Blob> => {
+    const decoded = await decodeAudio(file, EXTRACTED_SAMPLE_RATE);
+    const frames = Math.ceil(decoded.duration * EXTRACTED_SAMPLE_RATE);
+    const offline = new OfflineAudioContext(1, frames, EXTRACTED_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    return encodeWav(await offline.startRendering());
+};
+
+export const getMediaDuration = (blob: Blob): Promise<number> => new Promise(resolve => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    const finish = (duration: number) => {
+        URL.revokeObjectURL(url);
+        resolve(Number.isFinite(duration) ? duration : 0);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(audio.duration);
+    audio.onerror = () => finish(0);
+    audio.src = url;
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PREPROCESS_OPTIONS, keptFrameRanges, remapSegments, toOriginalTime } from "./audioPreprocess";
+
+// Frames are 20 ms: the edge padding is 13 frames and a 0.2 s pause is 10.
+const OPTIONS = { ...DEFAULT_PREPROCESS_OPTIONS, maxPauseSeconds: 0.2 };
+
+// Builds frame flags from runs, e.g. frames(['silence', 20], ['speech', 10]).
+const frames = (...runs: ['silence' | 'speech', number][]): boolean[] =>
+    runs.flatMap(([kind, count]) => Array<boolean>(count).fill(kind === 'silence'));
+
+const recording = frames(['silence', 20], ['speech', 10], ['silence', 30], ['speech', 10], ['silence', 20]);
+
+describe('keptFrameRanges', () => {
+    it('trims the ends down to the padding and collapses long pauses', () => {
+        expect(keptFrameRanges(recording, OPTIONS)).toEqual([[7, 35], [55, 83]]);
+    });
+
+    it('only trims the ends when pauses are left alone', () => {
+        expect(keptFrameRanges(recording, { ...OPTIONS, collapsePauses: false })).toEqual([[7, 83]]);
+    });
+
+    it('only collapses pauses when the ends are left alone', () => {
+        expect(keptFrameRanges(recording, { ...OPTIONS, trimSilence: false })).toEqual([[0, 35], [55, 90]]);
+    });
+
+    it('keeps pauses up to the maximum length whole', () => {
+        const silent = frames(['speech', 5], ['silence', 10], ['speech', 5]);
+        expect(keptFrameRanges(silent, OPTIONS)).toEqual([[0, 20]]);
+    });
+
+    it('splits an odd pause budget with the extra frame after the pause', () => {
+        const silent = frames(['speech', 5], ['silence', 30], ['speech', 5]);
+        expect(keptFrameRanges(silent, { ...OPTIONS, maxPauseSeconds: 0.22 })).toEqual([[0, 10], [29, 40]]);
+    });
+
+    it('keeps silence at the ends that is shorter than the padding', () => {
+        const silent = frames(['silence', 5], ['speech', 10], ['silence', 5]);
+        expect(keptFrameRanges(silent, OPTIONS)).toEqual([[0, 20]]);
+    });
+
+    it('keeps a recording that is all silence', () => {
+        expect(keptFrameRanges(frames(['silence', 40]), OPTIONS)).toEqual([[0, 40]]);
+    });
+
+    it('keeps a recording without silence as one range', () => {
+        expect(keptFrameRanges(frames(['speech', 40]), OPTIONS)).toEqual([[0, 40]]);
+    });
+});
+
+describe('remapSegments', () => {
+    const timeMap = [{ processedStart: 0, originalStart: 0.14 }, { processedStart: 0.56, originalStart: 1.1 }];
+
+    it('moves processed times back onto the original recording', () => {
+        expect(toOriginalTime(timeMap, 0.2)).toBeCloseTo(0.34);
+        expect(toOriginalTime(timeMap, 0.6)).toBeCloseTo(1.14);
+        const [segment] = remapSegments([{ start: 0.5, end: 0.7, text: 'Hi' }], timeMap);
+        expect(segment.start).toBeCloseTo(0.64);
+        expect(segment.end).toBeCloseTo(1.24);
+    });
+
+    it('leaves times unchanged without a time map', () => {
+        expect(toOriginalTime([], 3)).toBe(3);
+    });
+});
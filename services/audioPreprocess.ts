@@ -0,0 +1,159 @@
+import type { TranscriptSegment } from "./transcriptionProvider";
+import { decodeAudio, encodeWav, mixToMono } from "./audioFile";
+
+export interface PreprocessOptions {
+    trimSilence: boolean;
+    // Shortens pauses longer than `maxPauseSeconds` to that length.
+    collapsePauses: boolean;
+    maxPauseSeconds: number;
+    normalize: boolean;
+    // Output is always mono; 16 kHz keeps speech intact, 8 kHz is smaller still.
+    sampleRate: 8000 | 16000;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+    trimSilence: true,
+    collapsePauses: true,
+    maxPauseSeconds: 1,
+    normalize: true,
+    sampleRate: 16000,
+};
+
+// A stretch of the processed audio and where it came from in the original.
+export interface TimeMapPiece {
+    processedStart: number;
+    originalStart: number;
+}
+
+export interface PreprocessResult {
+    blob: Blob;
+    originalBytes: number;
+    processedBytes: number;
+    originalDuration: number;
+    processedDuration: number;
+    timeMap: TimeMapPiece[];
+}
+
+const FRAME_SECONDS = 0.02;
+// Silence is measured against the speech level, so quiet recordings aren't treated as all silence.
+const SILENCE_BELOW_SPEECH = 0.05;
+const MIN_SILENCE_LEVEL = 0.001;
+// Kept around speech when trimming, so the first and last syllables aren't clipped.
+const EDGE_PADDING_SECONDS = 0.25;
+// Around -20 dBFS RMS, a comfortable level for speech.
+const TARGET_SPEECH_LEVEL = 0.1;
+const MAX_GAIN = 20;
+const MAX_PEAK = 0.98;
+
+const frameLevels = (samples: Float32Array, frameLength: number): number[] => {
+    const levels: number[] = [];
+    for (let start = 0; start < samples.length; start += frameLength) {
+        const end = Math.min(samples.length, start + frameLength);
+        let sumOfSquares = 0;
+        for (let i = start; i < end; i++) sumOfSquares += samples[i] * samples[i];
+        levels.push(Math.sqrt(sumOfSquares / (end - start)));
+    }
+    return levels;
+};
+
+// The 90th percentile of frame levels: loud enough to be speech, robust to the odd click.
+const speechLevel = (levels: number[]): number => {
+    if (levels.length === 0) return 0;
+    const sorted = [...levels].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length * 0.9)];
+};
+
+// Returns the frame ranges to keep, as [startFrame, endFrame) pairs.
+export const keptFrameRanges = (silent: boolean[], options: PreprocessOptions): [number, number][] => {
+    const padding = Math.round(EDGE_PADDING_SECONDS / FRAME_SECONDS);
+    const maxPause = Math.round(options.maxPauseSeconds / FRAME_SECONDS);
+    const ranges: [number, number][] = [];
+    let runStart = 0;
+    for (let frame = 0; frame <= silent.length; frame++) {
+        const runEnds = frame === silent.length || silent[frame] !== silent[runStart];
+        if (!runEnds) continue;
+        const runEnd = frame;
+        if (!silent[runStart]) {
+            ranges.push([runStart, runEnd]);
+        } else if (runStart === 0 && runEnd === silent.length) {
+            // All silence: keep it rather than returning nothing.
+            ranges.push([runStart, runEnd]);
+        } else if (runStart === 0 && options.trimSilence) {
+            ranges.push([Math.max(runStart, runEnd - padding), runEnd]);
+        } else if (runEnd === silent.length && options.trimSilence) {
+            ranges.push([runStart, Math.min(runEnd, runStart + padding)]);
+        } else if (runEnd - runStart > maxPause && options.collapsePauses && runStart > 0 && runEnd < silent.length) {
+            const half = Math.floor(maxPause / 2);
+            ranges.push([runStart, runStart + half], [runEnd - (maxPause - half), runEnd]);
+        } else {
+            ranges.push([runStart, runEnd]);
+        }
+        runStart = frame;
+    }
+
+    // Merge touching ranges so the time map only has a piece per actual cut.
+    return ranges.reduce<[number, number][]>((merged, range) => {
+        const last = merged[merged.length - 1];
+        if (last && last[1] === range[0]) last[1] = range[1];
+        else merged.push([...range]);
+        return merged;
+    }, []);
+};
+
+// Downmixes and resamples the recording, then optionally normalises it and
+// removes silence. The time map lets transcript timestamps be moved back onto
+// the original recording, which is what the player shows.
+export const preprocessAudio = async (blob: Blob, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS): Promise<PreprocessResult> => {
+    const mono = mixToMono(await decodeAudio(blob, options.sampleRate));
+    const samples = mono.getChannelData(0);
+    const frameLength = Math.round(FRAME_SECONDS * mono.sampleRate);
+    const levels = frameLevels(samples, frameLength);
+    const level = speechLevel(levels);
+
+    if (options.normalize && level > 0) {
+        let peak = 0;
+        for (const sample of samples) peak = Math.max(peak, Math.abs(sample));
+        const gain = Math.min(TARGET_SPEECH_LEVEL / level, MAX_PEAK / Math.max(peak, Number.EPSILON), MAX_GAIN);
+        for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+    }
+
+    const threshold = Math.max(MIN_SILENCE_LEVEL, level * SILENCE_BELOW_SPEECH);
+    const silent = levels.map(frameLevel => frameLevel < threshold);
+    const ranges = options.trimSilence || options.collapsePauses
+        ? keptFrameRanges(silent, options)
+        : [[0, levels.length] as [number, number]];
+
+    const pieces = ranges.map(([startFrame, endFrame]) => [startFrame * frameLength, Math.min(samples.length, endFrame * frameLength)]);
+    const length = pieces.reduce((total, [from, to]) => total + (to - from), 0);
+    const output = new AudioBuffer({ length: Math.max(1, length), numberOfChannels: 1, sampleRate: mono.sampleRate });
+    const outputData = output.getChannelData(0);
+    const timeMap: TimeMapPiece[] = [];
+    let offset = 0;
+    for (const [from, to] of pieces) {
+        outputData.set(samples.subarray(from, to), offset);
+        timeMap.push({ processedStart: offset / mono.sampleRate, originalStart: from / mono.sampleRate });
+        offset += to - from;
+    }
+
+    const processed = encodeWav(output);
+    return {
+        blob: processed,
+        originalBytes: blob.size,
+        processedBytes: processed.size,
+        originalDuration: mono.duration,
+        processedDuration: output.duration,
+        timeMap,
+    };
+};
+
+export const toOriginalTime = (timeMap: TimeMapPiece[], time: number): number => {
+    let piece = timeMap[0];
+    for (const candidate of timeMap) {
+        if (candidate.processedStart > time) break;
+        piece = candidate;
+    }
+    return piece ? piece.originalStart + (time - piece.processedStart) : time;
+};
+
+export const remapSegments = (segments: TranscriptSegment[], timeMap: TimeMapPiece[]): TranscriptSegment[] =>
+    segments.map(segment => ({ ...segment, start: toOriginalTime(timeMap, segment.start), end: toOriginalTime(timeMap, segment.end) }));
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from "vitest";
+import type { TranscriptSegment } from "./transcriptionProvider";
+import { ChunkState, mapWithConcurrency, planChunks, stitchChunks } from "./chunkedTranscription";
+
+const OPTIONS = { chunkSeconds: 10, overlapSeconds: 2, concurrency: 2 };
+
+const segment = (start: number, end: number, text: string): TranscriptSegment => ({ start, end, text });
+
+const chunk = (index: number, start: number, end: number, segments: TranscriptSegment[]): ChunkState =>
+    ({ index, start, end, status: 'done', segments });
+
+describe('planChunks', () => {
+    it('keeps a short recording in one chunk', () => {
+        expect(planChunks(10, OPTIONS)).toEqual([{ index: 0, start: 0, end: 10 }]);
+    });
+
+    it('overlaps neighbouring chunks and ends at the duration', () => {
+        expect(planChunks(25, OPTIONS)).toEqual([
+            { index: 0, start: 0, end: 10 },
+            { index: 1, start: 8, end: 18 },
+            { index: 2, start: 16, end: 25 },
+        ]);
+    });
+
+    it('does not add an empty chunk when the last one ends exactly at the duration', () => {
+        expect(planChunks(18, OPTIONS).map(c => [c.start, c.end])).toEqual([[0, 10], [8, 18]]);
+    });
+});
+
+describe('stitchChunks', () => {
+    it('gives each segment to the side of the overlap midpoint its own midpoint falls on', () => {
+        // The overlap is 8-10, so the cut is at 9.
+        const stitched = stitchChunks([
+            chunk(0, 0, 10, [segment(0, 4, 'Hello there.'), segment(4, 8.5, 'How are'), segment(8.5, 10, 'you to')]),
+            chunk(1, 8, 18, [segment(8, 8.5, 'are'), segment(8.5, 10, 'you today?'), segment(10, 14, 'Fine.')]),
+        ]);
+        expect(stitched.map(s => s.text)).toEqual(['Hello there.', 'How are', 'you today?', 'Fine.']);
+    });
+
+    it('keeps a segment whose midpoint is exactly on the cut for the later chunk', () => {
+        const stitched = stitchChunks([
+            chunk(0, 0, 10, [segment(8, 10, 'early')]),
+            chunk(1, 8, 18, [segment(8, 10, 'late')]),
+        ]);
+        expect(stitched.map(s => s.text)).toEqual(['late']);
+    });
+
+    it('drops a repeat inside the overlap', () => {
+        const stitched = stitchChunks([
+            chunk(0, 0, 10, [segment(5, 8.9, 'See you')]),
+            chunk(1, 8, 18, [segment(8.5, 9.6, 'see you'), segment(12, 13, 'Bye.')]),
+        ]);
+        expect(stitched).toEqual([segment(5, 8.9, 'See you'), segment(12, 13, 'Bye.')]);
+    });
+
+    it('replaces a clipped segment with the longer one from the next chunk', () => {
+        const stitched = stitchChunks([
+            chunk(0, 0, 10, [segment(5, 8.9, 'See you')]),
+            chunk(1, 8, 18, [segment(8.2, 9.8, 'See you soon!')]),
+        ]);
+        expect(stitched).toEqual([segment(5, 9.8, 'See you soon!')]);
+    });
+
+    it('skips chunks that are not done and orders chunks by index', () => {
+        const stitched = stitchChunks([
+            chunk(2, 16, 25, [segment(20, 22, 'Third.')]),
+            { index: 1, start: 8, end: 18, status: 'failed', error: 'boom' },
+            chunk(0, 0, 10, [segment(1, 2, 'First.')]),
+        ]);
+        expect(stitched.map(s => s.text)).toEqual(['First.', 'Third.']);
+    });
+});
+
+describe('mapWithConcurrency', () => {
+    it('never runs more than the limit at once', async () => {
+        let running = 0;
+        let peak = 0;
+        await mapWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+            peak = Math.max(peak, ++running);
+            await Promise.resolve();
+            running--;
+        });
+        expect(peak).toBe(2);
+    });
+
+    it('stops starting items after the first failure', async () => {
+        let release!: () => void;
+        const slow = new Promise<void>(resolve => { release = resolve; });
+        const worker = vi.fn(async (item: number) => {
+            if (item === 1) throw new Error('chunk failed');
+            if (item === 2) await slow;
+        });
+
+        await expect(mapWithConcurrency([1, 2, 3, 4, 5], 2, worker)).rejects.toThrow('chunk failed');
+        release();
+        await slow;
+        await Promise.resolve();
+        expect(worker.mock.calls.map(([item]) => item)).toEqual([1, 2]);
+    });
+});
@@ -0,0 +1,136 @@
+import type { TranscriptSegment } from "./transcriptionProvider";
+import { decodeAudio, encodeWav, mixToMono } from "./audioFile";
+
+export interface ChunkOptions {
+    chunkSeconds: number;
+    // Audio shared by neighbouring chunks so words cut at a boundary are heard in full by one of them.
+    overlapSeconds: number;
+    concurrency: number;
+}
+
+// Four minutes of 16 kHz mono WAV is ~7.7 MB, comfortably under the inline request limit once base64-encoded.
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+    chunkSeconds: 240,
+    overlapSeconds: 4,
+    concurrency: 3,
+};
+
+const CHUNK_SAMPLE_RATE = 16000;
+
+export interface AudioChunk {
+    index: number;
+    // Position of the chunk within the full recording, in seconds.
+    start: number;
+    end: number;
+}
+
+export type ChunkStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface ChunkState extends AudioChunk {
+    status: ChunkStatus;
+    // Segments with times already shifted to the full recording.
+    segments?: TranscriptSegment[];
+    error?: string;
+}
+
+export const planChunks = (duration: number, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): AudioChunk[] => {
+    if (duration <= options.chunkSeconds) {
+        return [{ index: 0, start: 0, end: duration }];
+    }
+    const chunks: AudioChunk[] = [];
+    const step = options.chunkSeconds - options.overlapSeconds;
+    for (let start = 0; start < duration; start += step) {
+        const end = Math.min(duration, start + options.chunkSeconds);
+        chunks.push({ index: chunks.length, start, end });
+        if (end >= duration) break;
+    }
+    return chunks;
+};
+
+// Decodes the recording once and renders every chunk as 16 kHz mono WAV.
+export const splitAudio = async (blob: Blob, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): Promise<{ chunks: AudioChunk[]; blobs: Blob[] }> => {
+    const decoded = await decodeAudio(blob, CHUNK_SAMPLE_RATE);
+    const chunks = planChunks(decoded.duration, options);
+    const blobs = chunks.map(chunk => encodeWav(mixToMono(decoded, chunk.start, chunk.end)));
+    return { chunks, blobs };
+};
+
+export const offsetSegments = (segments: TranscriptSegment[], offset: number): TranscriptSegment[] =>
+    segments.map(segment => ({ ...segment, start: segment.start + offset, end: segment.end + offset }));
+
+const normalizeForComparison = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Joins chunk transcripts into one. Each overlap is cut at its midpoint and a
+// segment belongs to whichever side of the cut its own midpoint falls on, so a
+// sentence clipped at the end of one chunk is taken from the next chunk instead.
+// Repeats left inside the overlap are merged, keeping the longer text.
+export const stitchChunks = (chunks: ChunkState[]): TranscriptSegment[] => {
+    const ordered = [...chunks].sort((a, b) => a.index - b.index);
+    const stitched: TranscriptSegment[] = [];
+    ordered.forEach((chunk, i) => {
+        if (chunk.status !== 'done' || !chunk.segments) return;
+        const previous = ordered[i - 1];
+        const next = ordered[i + 1];
+        const cutBefore = previous ? (chunk.start + previous.end) / 2 : -Infinity;
+        const cutAfter = next ? (next.start + chunk.end) / 2 : Infinity;
+        for (const segment of chunk.segments) {
+            const midpoint = (segment.start + segment.end) / 2;
+            if (midpoint < cutBefore || midpoint >= cutAfter) continue;
+
+            const last = stitched[stitched.length - 1];
+            const inOverlap = previous !== undefined && segment.start < previous.end;
+            if (last && inOverlap) {
+                const lastText = normalizeForComparison(last.text);
+                const text = normalizeForComparison(segment.text);
+                if (lastText.endsWith(text)) continue;
+                if (text.startsWith(lastText)) {
+                    stitched[stitched.length - 1] = { ...segment, start: last.start };
+                    continue;
+                }
+            }
+            stitched.push(segment);
+        }
+    });
+    return stitched;
+};
+
+// Runs `worker` over `items` with at most `limit` calls in flight. The first
+// failure rejects the whole run and no further items are started; calls
+// already in flight are left to finish.
+export const mapWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> => {
+    const queue = [...items];
+    let failed = false;
+    const runners = Array.from({ length: Math.min(limit, queue.length) }, async () => {
+        while (queue.length > 0 && !failed) {
+            try {
+                await worker(queue.shift()!);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    });
+    await Promise.all(runners);
+};
+
+// Transcribes a whole recording in one go, for callers without per-part retry
+// controls. Fails if any part fails. `onProgress` receives the fraction of parts done.
+export const transcribeRecording = async (
+    blob: Blob,
+    duration: number,
+    transcribe: (chunk: Blob) => Promise<TranscriptSegment[]>,
+    onProgress?: (progress: number) => void,
+    options: ChunkOptions = DEFAULT_CHUNK_OPTIONS,
+): Promise<TranscriptSegment[]> => {
+    const { chunks, blobs } = duration > 0 && duration <= options.chunkSeconds
+        ? { chunks: [{ index: 0, start: 0, end: duration }], blobs: [blob] }
+        : await splitAudio(blob, options);
+    const states: ChunkState[] = chunks.map(chunk => ({ ...chunk, status: 'pending' }));
+    let done = 0;
+    await mapWithConcurrency(chunks, options.concurrency, async (chunk) => {
+        const segments = await transcribe(blobs[chunk.index]);
+        states[chunk.index] = { ...chunk, status: 'done', segments: offsetSegments(segments, chunk.start) };
+        onProgress?.(++done / chunks.length);
+    });
+    return stitchChunks(states);
+};
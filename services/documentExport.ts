@@ -0,0 +1,146 @@
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from "docx";
+import { jsPDF } from "jspdf";
+import type { TranscriptSegment, WordMetrics } from "./transcriptionProvider";
+import type { TextStats } from "./textStats";
+import { formatTimestamp, isTimed, speakerName, SpeakerMap } from "./transcript";
+
+export interface DocumentMetadata {
+    title: string;
+    date: string;
+    language?: string;
+    // Recording length in seconds, when known.
+    duration?: number;
+    speakers: SpeakerMap;
+    stats: TextStats;
+    metrics: WordMetrics | null;
+}
+
+type Field = [label: string, value: string];
+
+const headerFields = (meta: DocumentMetadata): Field[] => {
+    const fields: Field[] = [['Date', new Date(meta.date).toLocaleString()]];
+    if (meta.language) fields.push(['Language', meta.language]);
+    if (meta.duration) fields.push(['Duration', formatTimestamp(meta.duration)]);
+    const speakerNames = Object.keys(meta.speakers).map(id => speakerName(meta.speakers, id));
+    if (speakerNames.length > 0) fields.push(['Speakers', speakerNames.join(', ')]);
+    return fields;
+};
+
+const metricsFields = ({ stats, metrics }: DocumentMetadata): Field[] => {
+    const fields: Field[] = [
+        ['Words', String(stats.wordCount)],
+        ['Characters', String(stats.characterCount)],
+        ['Sentences', String(stats.sentenceCount)],
+        ['Paragraphs', String(stats.paragraphCount)],
+        ['Reading time', formatTimestamp(stats.readingTimeSeconds)],
+    ];
+    if (stats.wordsPerMinute !== null) fields.push(['Words per minute', String(stats.wordsPerMinute)]);
+    fields.push(
+        ['Filler words', String(stats.fillerCount)],
+        ['Vocabulary diversity', `${Math.round(stats.vocabularyDiversity * 100)}%`],
+    );
+    if (metrics) {
+        fields.push(
+            ['Verbs', String(metrics.verbCount)],
+            ['Nouns', String(metrics.nounCount)],
+            ['Adjectives', String(metrics.adjectiveCount)],
+            ['Conjunctions', String(metrics.conjunctionCount)],
+            ['Profanity', String(metrics.profanityCount)],
+        );
+    }
+    return fields;
+};
+
+// Splits a segment into its "[00:12] Alice:" prefix and its text.
+const segmentParts = (segment: TranscriptSegment, speakers: SpeakerMap, timed: boolean): [prefix: string, text: string] => {
+    const prefix = [
+        timed ? `[${formatTimestamp(segment.start)}]` : '',
+        segment.speaker ? `${speakerName(speakers, segment.speaker)}:` : '',
+    ].filter(Boolean).join(' ');
+    return [prefix, segment.text];
+};
+
+export const toMarkdown = (meta: DocumentMetadata, segments: TranscriptSegment[]): string => {
+    const timed = isTimed(segments);
+    const lines = [
+        `# ${meta.title}`,
+        '',
+        ...headerFields(meta).map(([label, value]) => `- **${label}:** ${value}`),
+    ];
+    lines.push('', '## Metrics', '', '| Metric | Value |', '| --- | ---: |');
+    lines.push(...metricsFields(meta).map(([label, value]) => `| ${label} | ${value} |`));
+    lines.push('', '## Transcript', '');
+    for (const segment of segments) {
+        const [prefix, text] = segmentParts(segment, meta.speakers, timed);
+        lines.push(prefix ? `**${prefix}** ${text}` : text, '');
+    }
+    return lines.join('\n');
+};
+
+export const toDocx = (meta: DocumentMetadata, segments: TranscriptSegment[]): Promise<Blob> => {
+    const timed = isTimed(segments);
+    const field = ([label, value]: Field) => new Paragraph({
+        children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)],
+    });
+
+    const children: Paragraph[] = [
+        new Paragraph({ text: meta.title, heading: HeadingLevel.TITLE }),
+        ...headerFields(meta).map(field),
+    ];
+    children.push(new Paragraph({ text: 'Metrics', heading: HeadingLevel.HEADING_1 }));
+    children.push(...metricsFields(meta).map(field));
+    children.push(new Paragraph({ text: 'Transcript', heading: HeadingLevel.HEADING_1 }));
+    for (const segment of segments) {
+        const [prefix, text] = segmentParts(segment, meta.speakers, timed);
+        children.push(new Paragraph({
+            spacing: { after: 120 },
+            children: prefix ? [new TextRun({ text: `${prefix} `, bold: true }), new TextRun(text)] : [new TextRun(text)],
+        }));
+    }
+
+    const doc = new Document({
+        title: meta.title,
+        creator: 'Robo AI - Transcription Tool',
+        sections: [{ children }],
+    });
+    return Packer.toBlob(doc);
+};
+
+// jsPDF's built-in fonts only cover Latin-1, so scripts such as Japanese or
+// Hindi won't render; Markdown and DOCX keep full Unicode.
+export const toPdf = (meta: DocumentMetadata, segments: TranscriptSegment[]): Blob => {
+    const timed = isTimed(segments);
+    const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    const margin = 48;
+    const pageWidth = doc.internal.pageSize.getWidth() - margin * 2;
+    const pageBottom = doc.internal.pageSize.getHeight() - margin;
+    let y = margin;
+
+    const write = (text: string, { size = 11, bold = false, gap = 4 } = {}) => {
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        doc.setFontSize(size);
+        const lineHeight = size * 1.3;
+        for (const line of doc.splitTextToSize(text, pageWidth) as string[]) {
+            if (y + lineHeight > pageBottom) {
+                doc.addPage();
+                y = margin;
+            }
+            doc.text(line, margin, y + size);
+            y += lineHeight;
+        }
+        y += gap;
+    };
+
+    write(meta.title, { size: 20, bold: true, gap: 8 });
+    headerFields(meta).forEach(([label, value]) => write(`${label}: ${value}`, { gap: 0 }));
+    y += 12;
+    write('Metrics', { size: 14, bold: true });
+    write(metricsFields(meta).map(([label, value]) => `${label}: ${value}`).join('   '));
+    y += 12;
+    write('Transcript', { size: 14, bold: true });
+    for (const segment of segments) {
+        const [prefix, text] = segmentParts(segment, meta.speakers, timed);
+        write(prefix ? `${prefix} ${text}` : text, { gap: 6 });
+    }
+    return doc.output('blob');
+};
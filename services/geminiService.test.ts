@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createGenerateContent, GenerateContent, transcribeAudio, translateTexts } from "./geminiService";
+import { describeError, ProviderError } from "./providerErrors";
+
+const OPTIONS = { diarize: false };
+const SEGMENTS_RESPONSE = { text: JSON.stringify({ segments: [{ start: 0, end: 2, text: ' Hello. ' }] }) };
+
+// Shaped like the SDK's ApiError: the HTTP status and the API's message.
+const apiError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+// Runs the call to completion, firing retry timers as they are scheduled.
+const settle = async <T>(promise: Promise<T>): Promise<{ value?: T; error?: unknown }> => {
+    const result = promise.then(value => ({ value }), error => ({ error }));
+    await vi.runAllTimersAsync();
+    return result;
+};
+
+const transcribeError = async (generateContent: GenerateContent): Promise<ProviderError> => {
+    const { error } = await settle(transcribeAudio('AAAA', 'audio/webm', OPTIONS, generateContent));
+    expect(error).toBeInstanceOf(ProviderError);
+    return error as ProviderError;
+};
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('transcribeAudio', () => {
+    it('returns normalized segments', async () => {
+        const generateContent = vi.fn<GenerateContent>().mockResolvedValue(SEGMENTS_RESPONSE);
+        const { value } = await settle(transcribeAudio('AAAA', 'audio/webm', OPTIONS, generateContent));
+        expect(value).toEqual([{ start: 0, end: 2, text: 'Hello.' }]);
+        expect(generateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports a missing API key without retrying', async () => {
+        const error = await transcribeError(createGenerateContent(''));
+        expect(error.kind).toBe('missing-key');
+        expect(describeError(error, 'fallback')).toMatch(/No Gemini API key/);
+    });
+
+    it.each([401, 403])('reports a %i as a rejected key without retrying', async status => {
+        const generateContent = vi.fn<GenerateContent>().mockRejectedValue(apiError(status, 'PERMISSION_DENIED'));
+        const error = await transcribeError(generateContent);
+        expect(error.kind).toBe('auth');
+        expect(error.status).toBe(status);
+        expect(error.message).toMatch(/^Transcription failed: /);
+        expect(generateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries a 429 and succeeds once the limit clears', async () => {
+        const generateContent = vi.fn<GenerateContent>()
+            .mockRejectedValueOnce(apiError(429, 'RESOURCE_EXHAUSTED'))
+            .mockResolvedValue(SEGMENTS_RESPONSE);
+        const { value } = await settle(transcribeAudio('AAAA', 'audio/webm', OPTIONS, generateContent));
+        expect(value).toHaveLength(1);
+        expect(generateContent).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives up on a 429 after three attempts', async () => {
+        const generateContent = vi.fn<GenerateContent>().mockRejectedValue(apiError(429, 'RESOURCE_EXHAUSTED'));
+        const error = await transcribeError(generateContent);
+        expect(error.kind).toBe('rate-limit');
+        expect(generateContent).toHaveBeenCalledTimes(3);
+    });
+
+    it('reports a 413 as too large without retrying', async () => {
+        const generateContent = vi.fn<GenerateContent>().mockRejectedValue(apiError(413, 'Request Entity Too Large'));
+        const error = await transcribeError(generateContent);
+        expect(error.kind).toBe('payload-too-large');
+        expect(generateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not treat an invalid-payload 400 as too large', async () => {
+        const generateContent = vi.fn<GenerateContent>().mockRejectedValue(apiError(400, 'Invalid JSON payload received. Unknown name "foo"'));
+        const error = await transcribeError(generateContent);
+        expect(error.kind).toBe('bad-request');
+        expect(describeError(error, 'fallback')).not.toMatch(/trim the recording/);
+        expect(generateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports a 400 for an invalid key as a rejected key', async () => {
+        const generateContent = vi.fn<GenerateContent>().mockRejectedValue(apiError(400, 'API key not valid. Please pass a valid API key.'));
+        expect((await transcribeError(generateContent)).kind).toBe('auth');
+    });
+
+    it('retries a failed fetch and then reports a network error', async () => {
+        const generateContent = vi.fn<GenerateContent>().mockRejectedValue(new TypeError('Failed to fetch'));
+        const error = await transcribeError(generateContent);
+        expect(error.kind).toBe('network');
+        expect(generateContent).toHaveBeenCalledTimes(3);
+    });
+
+    it('retries a 503 and succeeds when the service recovers', async () => {
+        const generateContent = vi.fn<GenerateContent>()
+            .mockRejectedValueOnce(apiError(503, 'The model is overloaded.'))
+            .mockResolvedValue(SEGMENTS_RESPONSE);
+        const { value } = await settle(transcribeAudio('AAAA', 'audio/webm', OPTIONS, generateContent));
+        expect(value).toHaveLength(1);
+        expect(generateContent).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives up on a 500 after three attempts', async () => {
+        const generateContent = vi.fn<GenerateContent>().mockRejectedValue(apiError(500, 'Internal error'));
+        const error = await transcribeError(generateContent);
+        expect(error.kind).toBe('unavailable');
+        expect(generateContent).toHaveBeenCalledTimes(3);
+    });
+
+    it('reports a response that is not JSON as malformed without retrying', async () => {
+        const generateContent = vi.fn<GenerateContent>().mockResolvedValue({ text: '{"segments": [' });
+        const error = await transcribeError(generateContent);
+        expect(error.kind).toBe('malformed-response');
+        expect(generateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports a response without segments as malformed', async () => {
+        const generateContent = vi.fn<GenerateContent>().mockResolvedValue({ text: '{}' });
+        expect((await transcribeError(generateContent)).kind).toBe('malformed-response');
+    });
+});
+
+describe('translateTexts', () => {
+    it('reports a translation with the wrong number of segments as malformed', async () => {
+        const generateContent = vi.fn<GenerateContent>().mockResolvedValue({ text: JSON.stringify({ translations: ['Hola.'] }) });
+        const { error } = await settle(translateTexts(['Hello.', 'Bye.'], 'Spanish', generateContent));
+        expect(error).toBeInstanceOf(ProviderError);
+        expect((error as ProviderError).kind).toBe('malformed-response');
+    });
+});
@@ -1,11 +1,34 @@
 import { GoogleGenAI, Type } from "@google/genai";
+import type { GenerateContentParameters } from "@google/genai";
+import type { DetectedEntity, TranscribeOptions, TranscriptInsights, TranscriptionProvider, TranscriptSegment, WordMetrics } from "./transcriptionProvider";
+import { normalizeSegments } from "./transcript";
+import { classifyError, ProviderError, withRetry } from "./providerErrors";
 
-export const transcribeAudio = async (base64Audio: string, mimeType: string, language: string): Promise<string> => {
-    if (!process.env.API_KEY) {
-        throw new Error("API_KEY environment variable not set");
+// The one SDK call the provider makes. Every request goes through it, so tests
+// can pass a stub in place of the real API.
+export type GenerateContent = (params: GenerateContentParameters) => Promise<{ text?: string }>;
+
+export const createGenerateContent = (apiKey: string | undefined = process.env.API_KEY): GenerateContent => {
+    const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+    return params => {
+        if (!ai) throw new ProviderError('missing-key', "API_KEY environment variable not set");
+        return ai.models.generateContent(params);
+    };
+};
+
+// Creates a client per request, so the key is read when the call is made.
+const generateWithGemini: GenerateContent = params => createGenerateContent()(params);
+
+// Responses are requested as JSON, but can still come back empty or cut short.
+const parseResponse = <T>(text: string | undefined): T => {
+    try {
+        return JSON.parse((text ?? '').trim());
+    } catch (error) {
+        throw new ProviderError('malformed-response', "the response is not valid JSON", { cause: error });
     }
+};
 
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const transcribeAudio = async (base64Audio: string, mimeType: string, { language, diarize, vocabulary = [] }: TranscribeOptions, generateContent: GenerateContent = generateWithGemini): Promise<TranscriptSegment[]> => {
 
     const audioPart = {
         inlineData: {
@@ -15,74 +38,234 @@ export const transcribeAudio = async (base64Audio: string, mimeType: string, lan
     };
 
     const textPart = {
-        text: `Please transcribe this audio recording accurately and provide the final text in ${language}.`
+        text: `Please transcribe this audio recording accurately in the language that is spoken. Do not translate it. Split the transcript into segments of one or two sentences, each with its start and end time in seconds.`
+            + (language
+                ? ` The recording is in ${language}.`
+                : ` Detect the language spoken in each segment, give its English name (e.g. "Spanish") and your confidence from 0 to 1. Recordings may switch languages between segments.`)
+            + (vocabulary.length > 0
+                ? ` These names and terms may occur in the recording; when they do, spell them exactly as given: ${vocabulary.map(({ term, soundsLike }) => (soundsLike ? `"${term}" (sounds like "${soundsLike}")` : `"${term}"`)).join(', ')}.`
+                : '')
+            + ` For each segment, list the words or short phrases you are not sure you heard correctly, written exactly as in the segment text, with your confidence in each from 0 to 1. Leave the list empty when you are sure of every word.`
+            + (diarize ? ` Identify the different speakers and label each segment with its speaker as "Speaker 1", "Speaker 2", and so on, in order of first appearance. Start a new segment whenever the speaker changes.` : '')
+    };
+
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            segments: {
+                type: Type.ARRAY,
+                description: "Transcript segments in chronological order.",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        start: { type: Type.NUMBER, description: "Start time of the segment in seconds from the beginning of the recording." },
+                        end: { type: Type.NUMBER, description: "End time of the segment in seconds from the beginning of the recording." },
+                        text: { type: Type.STRING, description: "Transcribed text of the segment." },
+                        uncertain: {
+                            type: Type.ARRAY,
+                            description: "Words or phrases of this segment that may be misheard, in order of appearance.",
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    text: { type: Type.STRING, description: "The word or phrase exactly as it appears in the segment text." },
+                                    confidence: { type: Type.NUMBER, description: "Confidence that the word or phrase is transcribed correctly, from 0 to 1." },
+                                },
+                                required: ["text", "confidence"],
+                            },
+                        },
+                        ...(diarize && { speaker: { type: Type.STRING, description: "Label of the person speaking, e.g. \"Speaker 1\"." } }),
+                        ...(!language && {
+                            language: { type: Type.STRING, description: "English name of the language spoken in the segment, e.g. \"Spanish\"." },
+                            languageConfidence: { type: Type.NUMBER, description: "Confidence in the detected language, from 0 to 1." },
+                        }),
+                    },
+                    required: ["start", "end", "text"],
+                },
+            },
+        },
+        required: ["segments"],
     };
 
     try {
-        const response = await ai.models.generateContent({
+        const response = await withRetry(() => generateContent({
             model: 'gemini-2.5-flash',
             contents: { parts: [textPart, audioPart] },
-        });
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: schema,
+            },
+        }));
 
-        return response.text;
+        const result = parseResponse<{ segments: TranscriptSegment[] }>(response.text);
+        if (!Array.isArray(result.segments)) {
+            throw new ProviderError('malformed-response', "the response has no segments");
+        }
+        return normalizeSegments(result.segments);
     } catch (error) {
         console.error("Error during transcription:", error);
-        if (error instanceof Error) {
-            return `Transcription failed: ${error.message}`;
-        }
-        return "An unknown error occurred during transcription.";
+        throw classifyError(error, "Transcription failed");
     }
 };
 
-export interface WordMetrics {
-    wordCount: number;
-    characterCount: number;
-    verbCount: number;
-    nounCount: number;
-    adjectiveCount: number;
-    conjunctionCount: number;
-    profanityCount: number;
-}
-
-export const analyzeTextMetrics = async (text: string): Promise<WordMetrics> => {
-    if (!process.env.API_KEY) {
-        throw new Error("API_KEY environment variable not set");
-    }
-
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const analyzeTextMetrics = async (text: string, generateContent: GenerateContent = generateWithGemini): Promise<WordMetrics> => {
 
     const schema = {
         type: Type.OBJECT,
         properties: {
-            wordCount: { type: Type.INTEGER, description: "Total number of words in the text." },
-            characterCount: { type: Type.INTEGER, description: "Total number of characters in the text, including spaces." },
             verbCount: { type: Type.INTEGER, description: "Total number of verbs." },
             nounCount: { type: Type.INTEGER, description: "Total number of nouns." },
             adjectiveCount: { type: Type.INTEGER, description: "Total number of adjectives." },
             conjunctionCount: { type: Type.INTEGER, description: "Total number of conjunctions." },
             profanityCount: { type: Type.INTEGER, description: "Total number of profane or curse words." },
         },
-        required: ["wordCount", "characterCount", "verbCount", "nounCount", "adjectiveCount", "conjunctionCount", "profanityCount"],
+        required: ["verbCount", "nounCount", "adjectiveCount", "conjunctionCount", "profanityCount"],
     };
 
     try {
-        const response = await ai.models.generateContent({
+        const response = await withRetry(() => generateContent({
             model: 'gemini-2.5-flash',
-            contents: `Analyze the following text and provide counts for the specified metrics. Text: "${text}"`,
+            contents: `Analyze the following text and provide part-of-speech and profanity counts for the specified metrics. Text: "${text}"`,
             config: {
                 responseMimeType: "application/json",
                 responseSchema: schema,
             },
-        });
+        }));
         
-        const jsonString = response.text.trim();
-        const metrics: WordMetrics = JSON.parse(jsonString);
-        return metrics;
+        return parseResponse<WordMetrics>(response.text);
     } catch (error) {
         console.error("Error analyzing text metrics:", error);
-        if (error instanceof Error) {
-             throw new Error(`Metrics analysis failed: ${error.message}`);
+        throw classifyError(error, "Metrics analysis failed");
+    }
+};
+
+export const generateInsights = async (text: string, generateContent: GenerateContent = generateWithGemini): Promise<TranscriptInsights> => {
+
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            summary: { type: Type.STRING, description: "A short summary of the transcript in two to four sentences." },
+            keyPoints: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The most important points discussed, one short sentence each." },
+            actionItems: {
+                type: Type.ARRAY,
+                description: "Tasks someone agreed or was asked to do.",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        task: { type: Type.STRING, description: "What needs to be done." },
+                        owner: { type: Type.STRING, description: "Who is responsible, if mentioned." },
+                        dueDate: { type: Type.STRING, description: "When it is due, as mentioned in the transcript." },
+                    },
+                    required: ["task"],
+                },
+            },
+            decisions: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Decisions that were made." },
+        },
+        required: ["summary", "keyPoints", "actionItems", "decisions"],
+    };
+
+    try {
+        const response = await withRetry(() => generateContent({
+            model: 'gemini-2.5-flash',
+            contents: `Summarize the following transcript. Write in the same language as the transcript and only include action items and decisions that are actually stated. Transcript: "${text}"`,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: schema,
+            },
+        }));
+
+        return parseResponse<TranscriptInsights>(response.text);
+    } catch (error) {
+        console.error("Error generating insights:", error);
+        throw classifyError(error, "Insights generation failed");
+    }
+};
+
+export const translateTexts = async (texts: string[], targetLanguage: string, generateContent: GenerateContent = generateWithGemini): Promise<string[]> => {
+    if (texts.length === 0) return [];
+
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            translations: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The translation of each input text, in the same order." },
+        },
+        required: ["translations"],
+    };
+
+    try {
+        const response = await withRetry(() => generateContent({
+            model: 'gemini-2.5-flash',
+            contents: `Translate each transcript segment in the following JSON array into ${targetLanguage}. Return exactly one translation per segment, in the same order, without merging or splitting segments. Segments: ${JSON.stringify(texts)}`,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: schema,
+            },
+        }));
+
+        const result = parseResponse<{ translations: string[] }>(response.text);
+        // The columns are aligned by index, so a shifted result would pair the wrong lines.
+        if (result.translations?.length !== texts.length) {
+            throw new ProviderError('malformed-response', `expected ${texts.length} segments but received ${result.translations?.length ?? 0}`);
         }
-        throw new Error("An unknown error occurred during metrics analysis.");
+        return result.translations;
+    } catch (error) {
+        console.error("Error translating transcript:", error);
+        throw classifyError(error, "Translation failed");
     }
-};
\ No newline at end of file
+};
+
+export const detectEntities = async (text: string, generateContent: GenerateContent = generateWithGemini): Promise<DetectedEntity[]> => {
+
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            entities: {
+                type: Type.ARRAY,
+                description: "Personal data found in the transcript, each distinct value once.",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        text: { type: Type.STRING, description: "The value exactly as written in the transcript." },
+                        category: { type: Type.STRING, enum: ['name', 'address', 'email', 'phone', 'card', 'id'], description: "Kind of personal data." },
+                    },
+                    required: ["text", "category"],
+                },
+            },
+        },
+        required: ["entities"],
+    };
+
+    try {
+        const response = await withRetry(() => generateContent({
+            model: 'gemini-2.5-flash',
+            contents: `Find the personal data in the following transcript: names of people, postal addresses, and email addresses, phone numbers, payment card numbers and identity or account numbers, including ones that are spelled out in words (e.g. "john at example dot com"). Quote each value exactly as it is written in the transcript. Do not include company or product names. Transcript: "${text}"`,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: schema,
+            },
+        }));
+
+        const result = parseResponse<{ entities: DetectedEntity[] }>(response.text);
+        return Array.isArray(result.entities) ? result.entities : [];
+    } catch (error) {
+        console.error("Error detecting personal data:", error);
+        throw classifyError(error, "Personal data detection failed");
+    }
+};
+
+export const geminiProvider: TranscriptionProvider = {
+    id: 'gemini',
+    name: 'Gemini',
+    capabilities: {
+        translation: true,
+        metrics: true,
+        offline: false,
+        diarization: true,
+        insights: true,
+        entities: true,
+    },
+    transcribe: transcribeAudio,
+    analyzeMetrics: analyzeTextMetrics,
+    generateInsights,
+    translate: translateTexts,
+    detectEntities,
+};
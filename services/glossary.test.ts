@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { TranscriptSegment } from "./transcriptionProvider";
+import { applyReplacements, createGlossary, exportGlossary, parseGlossary, ReplacementRule } from "./glossary";
+
+const rule = (find: string, replace: string, options: Partial<ReplacementRule> = {}): ReplacementRule =>
+    ({ find, replace, wholeWord: true, matchCase: false, ...options });
+
+const replaced = (text: string, ...rules: ReplacementRule[]): string =>
+    applyReplacements([{ start: 0, end: 1, text }], rules)[0].text;
+
+describe('applyReplacements', () => {
+    it('matches whole words only by default', () => {
+        expect(replaced('Cube, cubes and a cube.', rule('cube', 'Kube'))).toBe('Kube, cubes and a Kube.');
+    });
+
+    it('treats accented letters as part of a word', () => {
+        expect(replaced('café cafés', rule('caf', 'X'))).toBe('café cafés');
+        expect(replaced('über alles', rule('über', 'over'))).toBe('over alles');
+    });
+
+    it('matches inside words when whole-word matching is off', () => {
+        expect(replaced('cubes and subcube', rule('cube', 'kube', { wholeWord: false }))).toBe('kubes and subkube');
+    });
+
+    it('ignores case unless asked to match it', () => {
+        expect(replaced('Acme and ACME', rule('acme', 'ACME Corp'))).toBe('ACME Corp and ACME Corp');
+        expect(replaced('Acme and ACME', rule('acme', 'ACME Corp', { matchCase: true }))).toBe('Acme and ACME');
+        expect(replaced('Acme and ACME', rule('Acme', 'ACME Corp', { matchCase: true }))).toBe('ACME Corp and ACME');
+    });
+
+    it('treats regex characters in the find text literally', () => {
+        expect(replaced('Use C++ or C.', rule('C++', 'C plus plus', { wholeWord: false }))).toBe('Use C plus plus or C.');
+        expect(replaced('a.b and axb', rule('a.b', 'A-B'))).toBe('A-B and axb');
+        expect(replaced('(beta) build', rule('(beta)', '[beta]', { wholeWord: false }))).toBe('[beta] build');
+    });
+
+    it('inserts the replacement literally', () => {
+        expect(replaced('price', rule('price', '$& and $1'))).toBe('$& and $1');
+    });
+
+    it('applies rules in order and skips rules without find text', () => {
+        expect(replaced('k8s', rule('k8s', 'kube'), rule('kube', 'Kubernetes'), rule('', 'nothing'))).toBe('Kubernetes');
+    });
+
+    it('rewrites flagged words along with the text', () => {
+        const segment: TranscriptSegment = { start: 0, end: 1, text: 'Ask cube', uncertain: [{ text: 'cube', confidence: 0.4 }] };
+        expect(applyReplacements([segment], [rule('cube', 'Kube')])).toEqual([
+            { start: 0, end: 1, text: 'Ask Kube', uncertain: [{ text: 'Kube', confidence: 0.4 }] },
+        ]);
+    });
+
+    it('returns the segments untouched without rules', () => {
+        const segments = [{ start: 0, end: 1, text: 'Hi' }];
+        expect(applyReplacements(segments, [])).toBe(segments);
+    });
+});
+
+describe('parseGlossary', () => {
+    it('reads back an export under a new id', () => {
+        const glossary = { ...createGlossary('Team'), id: 'old', terms: [{ term: 'Kubernetes', soundsLike: 'koo-ber-net-eez' }], replacements: [rule('cube', 'Kube')] };
+        const imported = parseGlossary(exportGlossary(glossary));
+        expect(imported).toMatchObject({ name: 'Team', terms: glossary.terms, replacements: glossary.replacements });
+        expect(imported.id).not.toBe('old');
+    });
+
+    it('rejects files that are not a glossary export', () => {
+        expect(() => parseGlossary('{')).toThrow('not valid JSON');
+        expect(() => parseGlossary('null')).toThrow('not a glossary export');
+        expect(() => parseGlossary('[1, 2]')).toThrow('not a glossary export');
+        expect(() => parseGlossary('{"version": 1, "terms": "Kubernetes"}')).toThrow('not a glossary export');
+        expect(() => parseGlossary('{"version": 2, "terms": []}')).toThrow('Unsupported glossary version: 2.');
+    });
+
+    it('drops malformed entries and fills in defaults', () => {
+        const imported = parseGlossary(JSON.stringify({
+            version: 1,
+            name: 42,
+            terms: [{ term: ' Acme ', soundsLike: 7 }, { term: '' }, 'Acme', null, { term: 3 }],
+            replacements: [{ find: 'acme', replace: null }, { find: 5 }, { find: '' }, 'acme', { find: 'x', replace: 'y', wholeWord: false, matchCase: true }],
+        }));
+        expect(imported.name).toBe('Imported glossary');
+        expect(imported.terms).toEqual([{ term: 'Acme' }]);
+        expect(imported.replacements).toEqual([
+            { find: 'acme', replace: '', wholeWord: true, matchCase: false },
+            { find: 'x', replace: 'y', wholeWord: false, matchCase: true },
+        ]);
+    });
+
+    it('accepts a file without replacement rules', () => {
+        expect(parseGlossary('{"version": 1, "terms": []}').replacements).toEqual([]);
+    });
+});
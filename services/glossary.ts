@@ -0,0 +1,117 @@
+import type { TranscriptSegment } from "./transcriptionProvider";
+
+export interface GlossaryTerm {
+    // The spelling the transcript should use, e.g. "Kubernetes".
+    term: string;
+    // How it is pronounced when that isn't obvious from the spelling, e.g. "koo-ber-net-eez".
+    soundsLike?: string;
+}
+
+// Applied to the transcript after it comes back, for mistakes a prompt can't prevent.
+export interface ReplacementRule {
+    find: string;
+    replace: string;
+    wholeWord: boolean;
+    matchCase: boolean;
+}
+
+// One glossary per workspace or team, so each can keep its own names and jargon.
+export interface Glossary {
+    id: string;
+    name: string;
+    terms: GlossaryTerm[];
+    replacements: ReplacementRule[];
+}
+
+export interface GlossarySettings {
+    glossaries: Glossary[];
+    activeGlossaryId: string | null;
+}
+
+export const DEFAULT_GLOSSARY_SETTINGS: GlossarySettings = { glossaries: [], activeGlossaryId: null };
+
+const GLOSSARY_FILE_VERSION = 1;
+
+export const createGlossary = (name: string): Glossary => ({
+    id: Date.now().toString(),
+    name,
+    terms: [],
+    replacements: [],
+});
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const ruleToRegExp = (rule: ReplacementRule): RegExp => {
+    const pattern = escapeRegExp(rule.find);
+    // \b only understands ASCII word characters, so use Unicode-aware lookarounds instead.
+    const source = rule.wholeWord ? `(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])` : pattern;
+    return new RegExp(source, rule.matchCase ? 'gu' : 'giu');
+};
+
+export const applyReplacements = (segments: TranscriptSegment[], rules: ReplacementRule[]): TranscriptSegment[] => {
+    const active = rules.filter(rule => rule.find);
+    if (active.length === 0) return segments;
+    const regexes = active.map(rule => [ruleToRegExp(rule), rule.replace] as const);
+    const apply = (value: string) => regexes.reduce((text, [regex, replace]) => text.replace(regex, () => replace), value);
+    return segments.map(segment => ({
+        ...segment,
+        text: apply(segment.text),
+        // Flagged words are rewritten too, so they can still be found in the text.
+        ...(segment.uncertain && { uncertain: segment.uncertain.map(span => ({ ...span, text: apply(span.text) })) }),
+    }));
+};
+
+export const exportGlossary = (glossary: Glossary): string => JSON.stringify({
+    version: GLOSSARY_FILE_VERSION,
+    name: glossary.name,
+    terms: glossary.terms,
+    replacements: glossary.replacements,
+}, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): string | null =>
+    typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const parseTerm = (value: unknown): GlossaryTerm | null => {
+    if (!isRecord(value)) return null;
+    const term = nonEmptyString(value.term);
+    if (!term) return null;
+    const soundsLike = nonEmptyString(value.soundsLike);
+    return { term, ...(soundsLike && { soundsLike }) };
+};
+
+const parseRule = (value: unknown): ReplacementRule | null => {
+    if (!isRecord(value) || typeof value.find !== 'string' || !value.find) return null;
+    return {
+        find: value.find,
+        replace: typeof value.replace === 'string' ? value.replace : '',
+        wholeWord: value.wholeWord !== false,
+        matchCase: value.matchCase === true,
+    };
+};
+
+// Reads a file written by `exportGlossary`. The imported glossary gets a new id
+// so it never overwrites one that already exists.
+export const parseGlossary = (json: string): Glossary => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+    if (!isRecord(data) || !Array.isArray(data.terms)) {
+        throw new Error("The file is not a glossary export.");
+    }
+    if (data.version !== GLOSSARY_FILE_VERSION) {
+        throw new Error(`Unsupported glossary version: ${String(data.version)}.`);
+    }
+    return {
+        ...createGlossary(nonEmptyString(data.name) ?? 'Imported glossary'),
+        terms: data.terms.map(parseTerm).filter((term): term is GlossaryTerm => term !== null),
+        replacements: (Array.isArray(data.replacements) ? data.replacements : [])
+            .map(parseRule)
+            .filter((rule): rule is ReplacementRule => rule !== null),
+    };
+};
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createJobQueue, JobQueueOptions, TranscriptionJob } from "./jobQueue";
+import { errorFromStatus } from "./providerErrors";
+
+interface Run {
+    job: TranscriptionJob;
+    resolve: (sessionId: string) => void;
+    reject: (error: unknown) => void;
+}
+
+// Lets the promise callbacks of settled runs finish.
+const flush = async () => {
+    for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+const setup = (overrides: Partial<JobQueueOptions> = {}) => {
+    const runs: Run[] = [];
+    let jobs: TranscriptionJob[] = [];
+    const queue = createJobQueue({
+        concurrency: 2,
+        baseDelayMs: 1000,
+        run: job => new Promise<string>((resolve, reject) => { runs.push({ job, resolve, reject }); }),
+        onChange: next => { jobs = next; },
+        ...overrides,
+    });
+    const files = (...names: string[]) => queue.add(names.map(name => new File(['audio'], `${name}.webm`)));
+    const statuses = () => jobs.map(job => `${job.name}:${job.status}`);
+    const job = (name: string) => jobs.find(candidate => candidate.name === name)!;
+    return { queue, runs, files, statuses, job };
+};
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('createJobQueue', () => {
+    it('runs at most `concurrency` jobs at once, oldest first', async () => {
+        const { runs, files, statuses } = setup();
+        files('a', 'b', 'c');
+        expect(statuses()).toEqual(['a:running', 'b:running', 'c:queued']);
+
+        runs[1].resolve('session-b');
+        await flush();
+        expect(statuses()).toEqual(['a:running', 'b:done', 'c:running']);
+        expect(runs.map(run => run.job.name)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('starts more jobs when the concurrency is raised', () => {
+        const { queue, files, statuses } = setup({ concurrency: 1 });
+        files('a', 'b', 'c');
+        queue.setConcurrency(3);
+        expect(statuses()).toEqual(['a:running', 'b:running', 'c:running']);
+    });
+
+    it('waits with exponential backoff before retrying a rate-limited job', async () => {
+        const { runs, files, job } = setup({ concurrency: 1 });
+        files('a');
+        runs[0].reject(errorFromStatus(429, 'slow down'));
+        await flush();
+        expect(job('a')).toMatchObject({ status: 'queued', attempts: 1, retryAt: Date.now() + 1000 });
+        expect(job('a').error).toMatch(/rate limit/i);
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(runs).toHaveLength(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(runs).toHaveLength(2);
+        expect(job('a')).toMatchObject({ status: 'running', attempts: 2, retryAt: undefined });
+
+        // The second wait is twice as long.
+        runs[1].reject(errorFromStatus(429, 'slow down'));
+        await flush();
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(runs).toHaveLength(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(runs).toHaveLength(3);
+    });
+
+    it('lets other jobs use the slot while a job waits to be retried', async () => {
+        const { runs, files, statuses } = setup({ concurrency: 1 });
+        files('a', 'b');
+        runs[0].reject(errorFromStatus(429, 'slow down'));
+        await flush();
+        expect(statuses()).toEqual(['a:queued', 'b:running']);
+    });
+
+    it('marks a rate-limited job failed after the last attempt', async () => {
+        const { runs, files, job } = setup({ concurrency: 1, maxAttempts: 2 });
+        files('a');
+        runs[0].reject(errorFromStatus(429, 'slow down'));
+        await flush();
+        await vi.runAllTimersAsync();
+        runs[1].reject(errorFromStatus(429, 'slow down'));
+        await flush();
+        expect(job('a')).toMatchObject({ status: 'failed', attempts: 2 });
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('fails other errors straight away and retries them by hand from the first attempt', async () => {
+        const { queue, runs, files, job } = setup();
+        files('a');
+        runs[0].reject(errorFromStatus(401, 'denied'));
+        await flush();
+        expect(job('a')).toMatchObject({ status: 'failed', attempts: 1 });
+        expect(vi.getTimerCount()).toBe(0);
+
+        queue.retry(job('a').id);
+        expect(job('a')).toMatchObject({ status: 'running', attempts: 1, error: undefined });
+    });
+
+    it('runs a waiting job at once when retried by hand', async () => {
+        const { queue, runs, files, job } = setup();
+        files('a');
+        runs[0].reject(errorFromStatus(429, 'slow down'));
+        await flush();
+        queue.retry(job('a').id);
+        expect(runs).toHaveLength(2);
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('removes only jobs that are not running and clears finished ones', async () => {
+        const { queue, runs, files, statuses, job } = setup({ concurrency: 1 });
+        files('a', 'b');
+        queue.remove(job('a').id);
+        queue.remove(job('b').id);
+        expect(statuses()).toEqual(['a:running']);
+
+        runs[0].resolve('session-a');
+        await flush();
+        expect(job('a')).toMatchObject({ status: 'done', progress: 1, sessionId: 'session-a' });
+        queue.clearFinished();
+        expect(statuses()).toEqual([]);
+    });
+});
@@ -0,0 +1,137 @@
+import { backoffDelay, classifyError, describeError } from "./providerErrors";
+
+export type JobStatus = 'queued' | 'running' | 'failed' | 'done';
+
+export interface TranscriptionJob {
+    id: string;
+    name: string;
+    file: File;
+    status: JobStatus;
+    attempts: number;
+    // Fraction of the recording's parts transcribed so far, between 0 and 1.
+    progress: number;
+    error?: string;
+    // Set while a rate-limited job waits to be retried, as a timestamp in ms.
+    retryAt?: number;
+    // The saved session the job produced.
+    sessionId?: string;
+}
+
+export interface JobQueueOptions {
+    concurrency: number;
+    // Attempts before a rate-limited job is marked failed, including the first.
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    // Resolves with the id of the saved session.
+    run: (job: TranscriptionJob, reportProgress: (progress: number) => void) => Promise<string>;
+    onChange: (jobs: TranscriptionJob[]) => void;
+}
+
+export interface JobQueue {
+    add: (files: File[]) => void;
+    retry: (id: string) => void;
+    // Running jobs can't be cancelled, so they are left alone.
+    remove: (id: string) => void;
+    clearFinished: () => void;
+    setConcurrency: (concurrency: number) => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+// Longer than a single request's retries, since quota windows are usually a minute.
+const DEFAULT_BASE_DELAY_MS = 5000;
+
+export const createJobQueue = (options: JobQueueOptions): JobQueue => {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    let jobs: TranscriptionJob[] = [];
+    let concurrency = options.concurrency;
+    let running = 0;
+    let nextId = 0;
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const update = (id: string, patch: Partial<TranscriptionJob>) => {
+        jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+        options.onChange(jobs);
+    };
+
+    const clearTimer = (id: string) => {
+        const timer = timers.get(id);
+        if (timer !== undefined) clearTimeout(timer);
+        timers.delete(id);
+    };
+
+    const start = (job: TranscriptionJob) => {
+        running++;
+        const attempts = job.attempts + 1;
+        update(job.id, { status: 'running', attempts, progress: 0, error: undefined, retryAt: undefined });
+        options.run({ ...job, attempts }, progress => update(job.id, { progress }))
+            .then(sessionId => update(job.id, { status: 'done', progress: 1, sessionId }))
+            .catch(err => {
+                const message = describeError(err, err instanceof Error ? err.message : String(err));
+                if (classifyError(err).kind === 'rate-limit' && attempts < maxAttempts) {
+                    const delay = backoffDelay(attempts, options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS);
+                    update(job.id, { status: 'queued', error: message, retryAt: Date.now() + delay });
+                    timers.set(job.id, setTimeout(() => {
+                        timers.delete(job.id);
+                        pump();
+                    }, delay));
+                } else {
+                    update(job.id, { status: 'failed', error: message });
+                }
+            })
+            .finally(() => {
+                running--;
+                pump();
+            });
+    };
+
+    // Starts queued jobs, oldest first, until the concurrency limit is reached.
+    const pump = () => {
+        while (running < concurrency) {
+            const next = jobs.find(job => job.status === 'queued' && !timers.has(job.id));
+            if (!next) return;
+            start(next);
+        }
+    };
+
+    const add = (files: File[]) => {
+        if (files.length === 0) return;
+        const added = files.map((file): TranscriptionJob => ({
+            id: `${Date.now()}-${nextId++}`,
+            name: file.name.replace(/\.[^.]+$/, ''),
+            file,
+            status: 'queued',
+            attempts: 0,
+            progress: 0,
+        }));
+        jobs = [...jobs, ...added];
+        options.onChange(jobs);
+        pump();
+    };
+
+    const retry = (id: string) => {
+        const job = jobs.find(candidate => candidate.id === id);
+        if (!job || job.status === 'running' || job.status === 'done') return;
+        clearTimer(id);
+        update(id, { status: 'queued', attempts: 0, error: undefined, retryAt: undefined });
+        pump();
+    };
+
+    const remove = (id: string) => {
+        if (jobs.find(job => job.id === id)?.status === 'running') return;
+        clearTimer(id);
+        jobs = jobs.filter(job => job.id !== id);
+        options.onChange(jobs);
+    };
+
+    const clearFinished = () => {
+        jobs = jobs.filter(job => job.status !== 'done');
+        options.onChange(jobs);
+    };
+
+    const setConcurrency = (value: number) => {
+        concurrency = Math.max(1, value);
+        pump();
+    };
+
+    return { add, retry, remove, clearFinished, setConcurrency };
+};
@@ -0,0 +1,62 @@
+export interface InputLevel {
+    // Root-mean-square level of the last reading, from 0 to 1.
+    rms: number;
+    peak: number;
+    // True for a moment after any sample reached full scale.
+    clipping: boolean;
+    // True once the input has stayed near silent for SILENCE_WARNING_MS.
+    silent: boolean;
+}
+
+const UPDATE_INTERVAL_MS = 100;
+const CLIP_THRESHOLD = 0.99;
+const CLIP_HOLD_MS = 1000;
+// About -50 dBFS: quieter than any usable speech signal, louder than a muted or unplugged input.
+const SILENCE_THRESHOLD = 0.003;
+const SILENCE_WARNING_MS = 3000;
+
+// Samples the stream's level a few times per second. Returns a function that stops the meter.
+export const startLevelMeter = (stream: MediaStream, onLevel: (level: InputLevel) => void): (() => void) => {
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    const source = context.createMediaStreamSource(stream);
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    let lastClipAt = -Infinity;
+    let lastSoundAt = performance.now();
+    const interval = window.setInterval(() => {
+        analyser.getFloatTimeDomainData(samples);
+        let sumOfSquares = 0;
+        let peak = 0;
+        for (const sample of samples) {
+            sumOfSquares += sample * sample;
+            peak = Math.max(peak, Math.abs(sample));
+        }
+        const rms = Math.sqrt(sumOfSquares / samples.length);
+        const now = performance.now();
+        if (peak >= CLIP_THRESHOLD) lastClipAt = now;
+        if (rms >= SILENCE_THRESHOLD) lastSoundAt = now;
+        onLevel({
+            rms,
+            peak,
+            clipping: now - lastClipAt < CLIP_HOLD_MS,
+            silent: now - lastSoundAt >= SILENCE_WARNING_MS,
+        });
+    }, UPDATE_INTERVAL_MS);
+
+    return () => {
+        clearInterval(interval);
+        source.disconnect();
+        context.close();
+    };
+};
+
+// Lists the microphones the browser knows about. Labels are empty until the
+// user has granted microphone access at least once.
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'audioinput');
+};
@@ -0,0 +1,134 @@
+import type { Session } from "../types";
+import { toMarkdown } from "./documentExport";
+import { computeTextStats } from "./textStats";
+import { textToSegments } from "./transcript";
+
+export type SessionSortKey = 'date' | 'name' | 'duration' | 'language';
+export type LengthFilter = 'any' | 'short' | 'medium' | 'long';
+export type DateFilter = 'any' | 'day' | 'week' | 'month' | 'year';
+
+export interface LibraryView {
+    // null shows every folder; '' shows only sessions without one.
+    folder: string | null;
+    tag: string | null;
+    language: string | null;
+    length: LengthFilter;
+    since: DateFilter;
+    sortKey: SessionSortKey;
+    sortAscending: boolean;
+}
+
+export const DEFAULT_LIBRARY_VIEW: LibraryView = {
+    folder: null,
+    tag: null,
+    language: null,
+    length: 'any',
+    since: 'any',
+    sortKey: 'date',
+    sortAscending: false,
+};
+
+// Upper bounds in seconds; recordings of unknown length only match 'any'.
+const LENGTH_LIMITS: Record<Exclude<LengthFilter, 'any'>, [number, number]> = {
+    short: [0, 5 * 60],
+    medium: [5 * 60, 30 * 60],
+    long: [30 * 60, Infinity],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_LIMITS_MS: Record<Exclude<DateFilter, 'any'>, number> = {
+    day: DAY_MS,
+    week: 7 * DAY_MS,
+    month: 30 * DAY_MS,
+    year: 365 * DAY_MS,
+};
+
+const uniqueSorted = (values: (string | undefined)[]): string[] =>
+    [...new Set(values.filter((value): value is string => !!value))].sort((a, b) => a.localeCompare(b));
+
+export const listFolders = (sessions: Session[]): string[] => uniqueSorted(sessions.map(session => session.folder));
+export const listTags = (sessions: Session[]): string[] => uniqueSorted(sessions.flatMap(session => session.tags ?? []));
+export const listLanguages = (sessions: Session[]): string[] => uniqueSorted(sessions.map(session => session.language));
+
+// Splits comma-separated input into tags, dropping blanks and case-insensitive repeats.
+export const parseTags = (input: string): string[] => {
+    const seen = new Set<string>();
+    return input.split(',').map(tag => tag.trim()).filter(tag => {
+        const key = tag.toLowerCase();
+        if (!tag || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+// Adds " (2)", " (3)" and so on until the name is free, since session names must be unique.
+export const uniqueSessionName = (name: string, sessions: Session[]): string => {
+    const taken = new Set(sessions.map(session => session.name));
+    let candidate = name;
+    for (let n = 2; taken.has(candidate); n++) candidate = `${name} (${n})`;
+    return candidate;
+};
+
+export const addTags = (session: Session, tags: string[]): Session => {
+    const existing = session.tags ?? [];
+    const added = tags.filter(tag => !existing.some(current => current.toLowerCase() === tag.toLowerCase()));
+    return added.length > 0 ? { ...session, tags: [...existing, ...added] } : session;
+};
+
+export const removeTag = (session: Session, tag: string): Session => {
+    const tags = (session.tags ?? []).filter(current => current !== tag);
+    return { ...session, tags: tags.length > 0 ? tags : undefined };
+};
+
+export const matchesView = (session: Session, view: LibraryView, now = Date.now()): boolean => {
+    if (view.folder !== null && (session.folder ?? '') !== view.folder) return false;
+    if (view.tag !== null && !session.tags?.includes(view.tag)) return false;
+    if (view.language !== null && session.language !== view.language) return false;
+    if (view.length !== 'any') {
+        const [min, max] = LENGTH_LIMITS[view.length];
+        if (session.duration === undefined || session.duration < min || session.duration >= max) return false;
+    }
+    if (view.since !== 'any' && now - new Date(session.date).getTime() > DATE_LIMITS_MS[view.since]) return false;
+    return true;
+};
+
+const compareSessions = (a: Session, b: Session, key: SessionSortKey): number => {
+    switch (key) {
+        case 'name':
+            return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+        case 'duration':
+            return (a.duration ?? 0) - (b.duration ?? 0);
+        case 'language':
+            return (a.language ?? '').localeCompare(b.language ?? '');
+        case 'date':
+            return a.date.localeCompare(b.date);
+    }
+};
+
+export const applyLibraryView = (sessions: Session[], view: LibraryView): Session[] => {
+    const now = Date.now();
+    const direction = view.sortAscending ? 1 : -1;
+    return sessions
+        .filter(session => matchesView(session, view, now))
+        // Ties fall back to newest first, so equal keys keep a stable, useful order.
+        .sort((a, b) => direction * compareSessions(a, b, view.sortKey) || b.date.localeCompare(a.date));
+};
+
+// One Markdown document with a section per session, for exporting a selection.
+export const sessionsToMarkdown = (sessions: Session[]): string => sessions.map(session => {
+    const markdown = toMarkdown({
+        title: session.name,
+        date: session.date,
+        language: session.language,
+        duration: session.duration,
+        speakers: session.speakers ?? {},
+        stats: computeTextStats(session.text, session.duration),
+        metrics: session.metrics ?? null,
+    }, session.segments ?? textToSegments(session.text));
+    const details = [
+        session.folder && `- **Folder:** ${session.folder}`,
+        session.tags?.length && `- **Tags:** ${session.tags.join(', ')}`,
+    ].filter(Boolean);
+    // Folder and tags go right under the title, with the other header fields.
+    return details.length > 0 ? markdown.replace('\n\n', `\n\n${details.join('\n')}\n`) : markdown;
+}).join('\n\n---\n\n');
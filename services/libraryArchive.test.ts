@@ -0,0 +1,90 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import type { Session } from "../types";
+import { ARCHIVE_VERSION, exportLibraryArchive, findImportConflicts, mergeLibrary, readLibraryArchive } from "./libraryArchive";
+
+const session = (id: string, name: string, date = '2024-01-01T00:00:00.000Z'): Session => ({ id, name, text: name, date });
+
+const existing = [session('1', 'Standup'), session('2', 'Retro')];
+const incoming = [session('1', 'Standup'), session('3', 'Retro', '2024-02-01T00:00:00.000Z'), session('4', 'Planning')];
+
+describe('findImportConflicts', () => {
+    it('separates sessions already in the library from name clashes', () => {
+        const conflicts = findImportConflicts(existing, incoming);
+        expect(conflicts.duplicateIds.map(s => s.id)).toEqual(['1']);
+        expect(conflicts.duplicateNames.map(s => s.id)).toEqual(['3']);
+    });
+});
+
+describe('mergeLibrary', () => {
+    it('skips known ids and numbers clashing names by default', () => {
+        const merged = mergeLibrary(existing, incoming, 'merge');
+        expect(merged.map(s => [s.id, s.name])).toEqual([
+            ['3', 'Retro (2)'],
+            ['1', 'Standup'],
+            ['2', 'Retro'],
+            ['4', 'Planning'],
+        ]);
+    });
+
+    it('leaves out clashing names when asked to skip them', () => {
+        expect(mergeLibrary(existing, incoming, 'merge', 'skip').map(s => s.id).sort()).toEqual(['1', '2', '4']);
+    });
+
+    it('returns the archive as is when replacing', () => {
+        expect(mergeLibrary(existing, incoming, 'replace')).toBe(incoming);
+    });
+});
+
+// Builds a backup by hand, so entries can disagree with their transcripts.
+const archive = async (entries: { id: unknown; transcript: unknown; audio?: string }[]): Promise<Blob> => {
+    const zip = new JSZip();
+    entries.forEach((entry, i) => {
+        zip.file(`transcripts/${i}.json`, JSON.stringify(entry.transcript));
+        if (entry.audio) zip.file(`audio/${i}.webm`, entry.audio);
+    });
+    zip.file('manifest.json', JSON.stringify({
+        format: 'robo-ai-library',
+        version: ARCHIVE_VERSION,
+        exportedAt: '2024-03-01T00:00:00.000Z',
+        sessions: entries.map((entry, i) => ({
+            id: entry.id,
+            name: `Session ${i}`,
+            transcript: `transcripts/${i}.json`,
+            ...(entry.audio && { audio: `audio/${i}.webm`, audioType: 'audio/webm' }),
+        })),
+    }));
+    return new Blob([await zip.generateAsync({ type: 'uint8array' })]);
+};
+
+describe('readLibraryArchive', () => {
+    it('reads back an exported library with its recordings', async () => {
+        const sessions = [{ ...session('1', 'Standup'), hasAudio: true }, session('2', 'Retro')];
+        const blob = await exportLibraryArchive(sessions, async () => new Blob(['audio'], { type: 'audio/webm' }));
+        const result = await readLibraryArchive(blob);
+        expect(result.sessions).toEqual([{ ...session('1', 'Standup'), hasAudio: true }, { ...session('2', 'Retro'), hasAudio: false }]);
+        expect([...result.audio.keys()]).toEqual(['1']);
+    });
+
+    it('drops malformed optional fields instead of rejecting the session', async () => {
+        const result = await readLibraryArchive(await archive([{ id: '1', transcript: { ...session('1', 'Standup'), tags: 'oops', segments: [{ text: 5 }] } }]));
+        expect(result.sessions).toEqual([{ ...session('1', 'Standup'), segments: [], hasAudio: false }]);
+    });
+
+    it('rejects a session without a usable date', async () => {
+        await expect(readLibraryArchive(await archive([{ id: '1', transcript: session('1', 'Standup', 'yesterday') }])))
+            .rejects.toThrow('"Session 0" is not a valid session');
+    });
+
+    it('rejects an entry whose transcript belongs to another session', async () => {
+        await expect(readLibraryArchive(await archive([{ id: '1', transcript: session('2', 'Retro') }])))
+            .rejects.toThrow('belongs to a different session (2) than the manifest says (1)');
+    });
+
+    it('rejects repeated ids so recordings cannot be swapped', async () => {
+        await expect(readLibraryArchive(await archive([
+            { id: '1', transcript: session('1', 'Standup'), audio: 'first' },
+            { id: '1', transcript: session('1', 'Standup again'), audio: 'second' },
+        ]))).rejects.toThrow('more than one session with the id 1');
+    });
+});
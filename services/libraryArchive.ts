@@ -0,0 +1,149 @@
+import JSZip from "jszip";
+import type { Session } from "../types";
+import { audioExtension } from "./audioFile";
+import { uniqueSessionName } from "./library";
+import { parseSession } from "./sessionValidation";
+
+// A backup is a zip with `manifest.json` at the root, one `transcripts/<id>.json`
+// (the full session) and `.txt` (plain text, for reading without the app) per
+// session, and `audio/<id>.<ext>` for sessions with a recording.
+const ARCHIVE_FORMAT = 'robo-ai-library';
+export const ARCHIVE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+interface ManifestEntry {
+    id: string;
+    name: string;
+    transcript: string;
+    audio?: string;
+    audioType?: string;
+}
+
+interface ArchiveManifest {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string;
+    sessions: ManifestEntry[];
+}
+
+export interface LibraryArchive {
+    exportedAt: string;
+    sessions: Session[];
+    // Recordings keyed by session id.
+    audio: Map<string, Blob>;
+}
+
+// A recording that can't be read is left out rather than failing the whole backup.
+export const exportLibraryArchive = async (sessions: Session[], readAudio: (id: string) => Promise<Blob | null>): Promise<Blob> => {
+    const zip = new JSZip();
+    const entries: ManifestEntry[] = [];
+    for (const session of sessions) {
+        const entry: ManifestEntry = { id: session.id, name: session.name, transcript: `transcripts/${session.id}.json` };
+        const audio = session.hasAudio ? await readAudio(session.id).catch(() => null) : null;
+        if (audio) {
+            entry.audio = `audio/${session.id}.${audioExtension(audio.type)}`;
+            entry.audioType = audio.type;
+            // Recordings are already compressed, so deflating them only costs time.
+            zip.file(entry.audio, audio, { compression: 'STORE' });
+        }
+        zip.file(entry.transcript, JSON.stringify({ ...session, hasAudio: !!audio }, null, 2));
+        zip.file(`transcripts/${session.id}.txt`, session.text);
+        entries.push(entry);
+    }
+    const manifest: ArchiveManifest = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: new Date().toISOString(), sessions: entries };
+    zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+};
+
+export const readLibraryArchive = async (file: Blob): Promise<LibraryArchive> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new Error("The file is not a zip archive.");
+    }
+    const manifestFile = zip.file(MANIFEST_PATH);
+    if (!manifestFile) throw new Error("The archive has no manifest.json, so it is not a library backup.");
+
+    let manifest: ArchiveManifest;
+    try {
+        manifest = JSON.parse(await manifestFile.async('string'));
+    } catch {
+        throw new Error("The archive's manifest is not valid JSON.");
+    }
+    if (manifest?.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.sessions)) {
+        throw new Error("The archive is not a library backup.");
+    }
+    if (manifest.version !== ARCHIVE_VERSION) {
+        throw new Error(`Unsupported backup version: ${manifest.version}. This app reads version ${ARCHIVE_VERSION}.`);
+    }
+
+    const sessions: Session[] = [];
+    const audio = new Map<string, Blob>();
+    for (const entry of manifest.sessions) {
+        const transcriptFile = typeof entry?.transcript === 'string' ? zip.file(entry.transcript) : null;
+        if (!transcriptFile) throw new Error(`The transcript for "${entry?.name ?? entry?.id}" is missing from the archive.`);
+        let json: unknown;
+        try {
+            json = JSON.parse(await transcriptFile.async('string'));
+        } catch {
+            throw new Error(`The transcript for "${entry.name}" is not valid JSON.`);
+        }
+        const session = parseSession(json);
+        if (!session) throw new Error(`The transcript for "${entry.name}" is not a valid session.`);
+        if (session.id !== entry.id) {
+            throw new Error(`The transcript for "${entry.name}" belongs to a different session (${session.id}) than the manifest says (${entry.id}).`);
+        }
+        // Recordings are keyed by id, so a repeated id would attach one session's audio to another.
+        if (sessions.some(existing => existing.id === session.id)) {
+            throw new Error(`The archive contains more than one session with the id ${session.id}.`);
+        }
+
+        const audioFile = typeof entry.audio === 'string' ? zip.file(entry.audio) : null;
+        if (audioFile) {
+            const data = await audioFile.async('arraybuffer');
+            audio.set(session.id, new Blob([data], { type: entry.audioType ?? '' }));
+        }
+        sessions.push({ ...session, hasAudio: !!audioFile });
+    }
+    return { exportedAt: manifest.exportedAt, sessions, audio };
+};
+
+export interface ImportConflicts {
+    // Sessions already in the library, matched by id.
+    duplicateIds: Session[];
+    // Different sessions that would share a name with one in the library.
+    duplicateNames: Session[];
+}
+
+// Names must be unique across the library, the same rule applied when saving.
+export const findImportConflicts = (existing: Session[], incoming: Session[]): ImportConflicts => {
+    const ids = new Set(existing.map(session => session.id));
+    const names = new Set(existing.map(session => session.name));
+    return {
+        duplicateIds: incoming.filter(session => ids.has(session.id)),
+        duplicateNames: incoming.filter(session => !ids.has(session.id) && names.has(session.name)),
+    };
+};
+
+export type ImportMode = 'merge' | 'replace';
+// What a merge does with an incoming session whose name is already taken:
+// number it, as in "Name (2)", or leave it out.
+export type NameClashAction = 'rename' | 'skip';
+
+// `merge` keeps every existing session, skips incoming ones with an id already
+// in the library and renames or skips incoming ones whose name is taken.
+// `replace` discards the current library in favour of the archive.
+export const mergeLibrary = (existing: Session[], incoming: Session[], mode: ImportMode, nameClash: NameClashAction = 'rename'): Session[] => {
+    if (mode === 'replace') return incoming;
+    const ids = new Set(existing.map(session => session.id));
+    const merged = [...existing];
+    for (const session of incoming) {
+        if (ids.has(session.id)) continue;
+        const name = uniqueSessionName(session.name, merged);
+        if (name !== session.name && nameClash === 'skip') continue;
+        merged.push({ ...session, name });
+        ids.add(session.id);
+    }
+    return merged.sort((a, b) => b.date.localeCompare(a.date));
+};
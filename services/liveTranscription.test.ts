@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TranscriptSegment } from "./transcriptionProvider";
+import { startLiveTranscription } from "./liveTranscription";
+
+// Like the browser's, `stop()` makes the recorder inactive at once but the
+// last data and `onstop` only arrive later, here when the test calls `finish()`.
+class FakeMediaRecorder {
+    static instances: FakeMediaRecorder[] = [];
+    state: 'inactive' | 'recording' = 'inactive';
+    ondataavailable: ((event: { data: Blob }) => void) | null = null;
+    onstop: (() => void) | null = null;
+
+    constructor() {
+        FakeMediaRecorder.instances.push(this);
+    }
+
+    start() {
+        this.state = 'recording';
+    }
+
+    stop() {
+        this.state = 'inactive';
+    }
+
+    finish() {
+        this.ondataavailable?.({ data: new Blob(['audio']) });
+        this.onstop?.();
+    }
+}
+
+const startLive = () => {
+    let slices = 0;
+    const transcribe = vi.fn(async (): Promise<TranscriptSegment[]> => [{ start: 0, end: 1, text: `Slice ${++slices}` }]);
+    const live = startLiveTranscription({} as MediaStream, { sliceSeconds: 5, mimeType: 'audio/webm', transcribe, onUpdate: () => {}, onError: () => {} });
+    return { live, transcribe, recorders: FakeMediaRecorder.instances };
+};
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    FakeMediaRecorder.instances = [];
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    vi.stubGlobal('window', globalThis);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+});
+
+describe('startLiveTranscription', () => {
+    it('transcribes the current slice when stopped', async () => {
+        const { live, recorders } = startLive();
+        const stopped = live.stop();
+        expect(recorders[0].state).toBe('inactive');
+        recorders[0].finish();
+        expect((await stopped).map(s => s.text)).toEqual(['Slice 1']);
+    });
+
+    it('waits for a slice the slice timer stopped just before', async () => {
+        const { live, recorders } = startLive();
+        vi.advanceTimersByTime(5000);
+        expect(recorders[0].state).toBe('inactive');
+
+        const stopped = live.stop();
+        recorders[0].finish();
+        expect((await stopped).map(s => s.text)).toEqual(['Slice 1']);
+        expect(recorders).toHaveLength(1);
+    });
+
+    it('waits for a slice flushed by a pause just before', async () => {
+        const { live, recorders } = startLive();
+        live.pause();
+        const stopped = live.stop();
+        recorders[0].finish();
+        expect((await stopped).map(s => s.text)).toEqual(['Slice 1']);
+    });
+
+    it('waits for the slice before a quick pause and resume', async () => {
+        const { live, recorders, transcribe } = startLive();
+        live.pause();
+        live.resume();
+        let done = false;
+        const stopped = live.stop().then(segments => {
+            done = true;
+            return segments;
+        });
+
+        recorders[1].finish();
+        await vi.runAllTimersAsync();
+        expect(done).toBe(false);
+
+        recorders[0].finish();
+        expect((await stopped)).toHaveLength(2);
+        expect(transcribe).toHaveBeenCalledTimes(2);
+    });
+});
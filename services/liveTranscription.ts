@@ -0,0 +1,105 @@
+import type { TranscriptSegment } from "./transcriptionProvider";
+import { offsetSegments } from "./chunkedTranscription";
+
+export interface LiveTranscriptionOptions {
+    sliceSeconds: number;
+    mimeType: string;
+    transcribe: (slice: Blob) => Promise<TranscriptSegment[]>;
+    // Called with the whole live transcript every time a slice comes back.
+    onUpdate: (segments: TranscriptSegment[]) => void;
+    onError: (error: unknown) => void;
+}
+
+export interface LiveTranscription {
+    // Flushes the current slice and stops recording new ones until resumed.
+    pause: () => void;
+    resume: () => void;
+    // Flushes the current slice and resolves once every slice has been transcribed.
+    stop: () => Promise<TranscriptSegment[]>;
+}
+
+// Records the stream in back-to-back slices and transcribes each one as soon as
+// it is finished. Timeslices from a single MediaRecorder can't be decoded on
+// their own (only the first carries the container header), so a short-lived
+// recorder is restarted for every slice, making each one a complete file.
+export const startLiveTranscription = (stream: MediaStream, options: LiveTranscriptionOptions): LiveTranscription => {
+    const startedAt = performance.now();
+    const results: TranscriptSegment[][] = [];
+    const pending: Promise<void>[] = [];
+    let active = true;
+    let paused = false;
+    // Time spent paused is left out of the recording, so it is left out of slice offsets too.
+    let pausedAt = 0;
+    let pausedTotal = 0;
+    let recorder: MediaRecorder | null = null;
+    let sliceTimer: number | null = null;
+    // One per recorder, resolved once its slice has been handed to `transcribe`.
+    // `state` turns 'inactive' as soon as `stop()` is called but `onstop` fires
+    // later, so this is the only reliable sign that a slice is finished.
+    const slicesStopped: Promise<void>[] = [];
+
+    const publish = () => options.onUpdate(results.flat());
+
+    const recordSlice = () => {
+        const index = results.length;
+        results.push([]);
+        const sliceStart = (performance.now() - startedAt - pausedTotal) / 1000;
+        const chunks: Blob[] = [];
+        const sliceRecorder = new MediaRecorder(stream, { mimeType: options.mimeType });
+        recorder = sliceRecorder;
+        let resolveSliceStopped: () => void;
+        slicesStopped.push(new Promise<void>(resolve => { resolveSliceStopped = resolve; }));
+        recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) chunks.push(event.data);
+        };
+        recorder.onstop = () => {
+            // After a quick pause and resume, `resume` has already started the next slice.
+            if (recorder === sliceRecorder && active && !paused) recordSlice();
+
+            const slice = new Blob(chunks, { type: options.mimeType });
+            if (slice.size > 0) {
+                pending.push(options.transcribe(slice)
+                    .then(segments => {
+                        results[index] = offsetSegments(segments, sliceStart);
+                        publish();
+                    })
+                    .catch(options.onError));
+            }
+            resolveSliceStopped();
+        };
+        recorder.start();
+        sliceTimer = window.setTimeout(() => recorder?.state === 'recording' && recorder.stop(), options.sliceSeconds * 1000);
+    };
+
+    recordSlice();
+
+    const stopSlice = () => {
+        if (sliceTimer) clearTimeout(sliceTimer);
+        if (recorder?.state === 'recording') recorder.stop();
+    };
+
+    return {
+        pause: () => {
+            if (!active || paused) return;
+            paused = true;
+            pausedAt = performance.now();
+            stopSlice();
+        },
+        resume: () => {
+            if (!active || !paused) return;
+            paused = false;
+            pausedTotal += performance.now() - pausedAt;
+            recordSlice();
+        },
+        stop: async () => {
+            active = false;
+            if (sliceTimer) clearTimeout(sliceTimer);
+            if (recorder && recorder.state !== 'inactive') recorder.stop();
+            // Includes recorders already stopped by the slice timer or `pause`
+            // whose `onstop` hasn't fired yet.
+            await Promise.all(slicesStopped);
+            await Promise.all(pending);
+            return results.flat();
+        },
+    };
+};
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createLocalHttpProvider } from "./mockProvider";
+import { ProviderError } from "./providerErrors";
+
+const respondWith = (body: unknown) => {
+    const fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify(body), { status: 200 }));
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+};
+
+const translateError = async (body: unknown): Promise<ProviderError> => {
+    respondWith(body);
+    const error = await createLocalHttpProvider('http://localhost:8000/').translate(['Hello.', 'Bye.'], 'Spanish').catch(e => e);
+    expect(error).toBeInstanceOf(ProviderError);
+    return error;
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('createLocalHttpProvider translate', () => {
+    it('returns one translation per segment', async () => {
+        const fetch = respondWith({ texts: ['Hola.', 'Adiós.'] });
+        expect(await createLocalHttpProvider('http://localhost:8000/').translate(['Hello.', 'Bye.'], 'Spanish')).toEqual(['Hola.', 'Adiós.']);
+        expect(fetch).toHaveBeenCalledWith('http://localhost:8000/translate', expect.objectContaining({ method: 'POST' }));
+    });
+
+    it('reports too few translations as malformed', async () => {
+        const error = await translateError({ texts: ['Hola.'] });
+        expect(error.kind).toBe('malformed-response');
+        expect(error.message).toMatch(/returned 1 translations for 2 segments/);
+    });
+
+    it('reports a missing list as malformed', async () => {
+        expect((await translateError({ translations: ['Hola.', 'Adiós.'] })).kind).toBe('malformed-response');
+    });
+
+    it('reports entries that are not strings as malformed', async () => {
+        expect((await translateError({ texts: ['Hola.', null] })).kind).toBe('malformed-response');
+    });
+});
@@ -0,0 +1,202 @@
+import type { ActionItem, DetectedEntity, TranscribeOptions, TranscriptInsights, TranscriptionProvider, TranscriptSegment, WordMetrics } from "./transcriptionProvider";
+import { normalizeSegments } from "./transcript";
+import { errorFromStatus, ProviderError, withRetry } from "./providerErrors";
+
+const CANNED_TRANSCRIPTS = [
+    "Good morning everyone. Let's start with a quick update on the release and then go through the open issues.",
+    "Thanks for joining the call. The new onboarding flow is ready for review, and we would like feedback by Friday.",
+    "This is a test recording. The quick brown fox jumps over the lazy dog, and the dog does not seem to mind.",
+    "Our main goal this quarter is to reduce support tickets. We will improve the documentation and add better error messages.",
+];
+
+const CONJUNCTIONS = new Set(['and', 'but', 'or', 'so', 'yet', 'nor', 'for', 'because', 'although', 'while', 'if', 'then']);
+const VERBS = new Set(['is', 'are', 'was', 'were', 'be', 'start', 'go', 'like', 'jumps', 'does', 'mind', 'reduce', 'improve', 'add', 'joining', 'review']);
+const ADJECTIVES = new Set(['quick', 'brown', 'lazy', 'new', 'open', 'main', 'better', 'good', 'ready']);
+const STOP_WORDS = new Set(['the', 'a', 'an', 'to', 'of', 'on', 'with', 'by', 'we', 'our', 'us', 'it', 'this', 'that', 'let\'s', 'would', 'will', 'not', 'through', 'over', 'everyone', 'seem', 'thanks', 'up']);
+
+// Roughly 150 words per minute, which keeps mock timestamps plausible.
+const SECONDS_PER_WORD = 0.4;
+
+// FNV-1a, so the same recording always maps to the same canned transcript.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const tokenize = (text: string): string[] =>
+    text.toLowerCase().split(/\s+/).map(word => word.replace(/[^\p{L}\p{N}']/gu, '')).filter(Boolean);
+
+const toTimedSegments = (text: string, diarize = false): TranscriptSegment[] => {
+    const sentences = (text.match(/[^.!?]+[.!?]*/g) ?? []).filter(sentence => sentence.trim());
+    let cursor = 0;
+    return sentences.map((sentence, index) => {
+        const start = cursor;
+        cursor += sentence.trim().split(/\s+/).length * SECONDS_PER_WORD;
+        const segment: TranscriptSegment = { start, end: Number(cursor.toFixed(2)), text: sentence.trim() };
+        // Alternate between two speakers so the diarization UI has something to show.
+        if (diarize) segment.speaker = `Speaker ${(index % 2) + 1}`;
+        return segment;
+    });
+};
+
+// The canned transcripts are all English, so detection is always certain.
+const withLanguage = (segments: TranscriptSegment[], language?: string): TranscriptSegment[] =>
+    language ? segments : segments.map(segment => ({ ...segment, language: 'English', languageConfidence: 1 }));
+
+// Flags long words with a confidence derived from the word itself, so the same
+// words are always flagged and some of them fall below the default threshold.
+const withConfidence = (segments: TranscriptSegment[]): TranscriptSegment[] =>
+    segments.map(segment => {
+        const uncertain = (segment.text.match(/[\p{L}']{8,}/gu) ?? [])
+            .map(word => ({ text: word, confidence: 0.4 + (hashString(word) % 50) / 100 }));
+        return uncertain.length > 0 ? { ...segment, uncertain } : segment;
+    });
+
+export const computeMockMetrics = (text: string): WordMetrics => {
+    const words = tokenize(text);
+    const metrics: WordMetrics = {
+        verbCount: 0,
+        nounCount: 0,
+        adjectiveCount: 0,
+        conjunctionCount: 0,
+        profanityCount: 0,
+    };
+    for (const word of words) {
+        if (CONJUNCTIONS.has(word)) metrics.conjunctionCount++;
+        else if (VERBS.has(word)) metrics.verbCount++;
+        else if (ADJECTIVES.has(word)) metrics.adjectiveCount++;
+        else if (!STOP_WORDS.has(word)) metrics.nounCount++;
+    }
+    return metrics;
+};
+
+const ACTION_PATTERN = /\b(will|need to|needs to|should|must|going to)\b/i;
+const DECISION_PATTERN = /\b(decided|agreed|approved|our main goal|we chose)\b/i;
+const DUE_DATE_PATTERN = /\bby (monday|tuesday|wednesday|thursday|friday|saturday|sunday|tomorrow|next week|the end of [a-z]+)\b/i;
+
+const splitSentences = (text: string): string[] =>
+    (text.match(/[^.!?\n]+[.!?]*/g) ?? []).map(sentence => sentence.trim()).filter(Boolean);
+
+// Keyword heuristics: enough to exercise the insights panel without a model.
+export const computeMockInsights = (text: string): TranscriptInsights => {
+    const sentences = splitSentences(text);
+    const actionItems: ActionItem[] = sentences
+        .filter(sentence => ACTION_PATTERN.test(sentence) || DUE_DATE_PATTERN.test(sentence))
+        .map(sentence => {
+            // A capitalised word right before the verb, as in "Maria will send the notes".
+            const owner = sentence.match(/\b(\p{Lu}\p{L}+)\s+(?:will|needs to|should|must|is going to)\b/u)?.[1];
+            const dueDate = sentence.match(DUE_DATE_PATTERN)?.[1];
+            return { task: sentence, ...(owner && { owner }), ...(dueDate && { dueDate }) };
+        });
+    return {
+        summary: sentences.slice(0, 2).join(' '),
+        keyPoints: sentences.slice(0, 5),
+        actionItems,
+        decisions: sentences.filter(sentence => DECISION_PATTERN.test(sentence)),
+    };
+};
+
+const ADDRESS_PATTERN = /\b\d{1,5}\s+(?:\p{Lu}\p{L}+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Lane|Drive|Boulevard|Way)\b\.?/gu;
+// Two or more capitalised words in a row, as in "Maria Lopez".
+const NAME_PATTERN = /\b\p{Lu}\p{Ll}+(?:\s+\p{Lu}\p{Ll}+)+\b/gu;
+
+// Pattern heuristics standing in for a model: full names and street addresses.
+export const computeMockEntities = (text: string): DetectedEntity[] => {
+    const addresses = [...text.matchAll(ADDRESS_PATTERN)].map(match => match[0]);
+    const names = [...text.matchAll(NAME_PATTERN)]
+        .map(match => match[0])
+        .filter(name => !addresses.some(address => address.includes(name)));
+    return [
+        ...[...new Set(names)].map((name): DetectedEntity => ({ text: name, category: 'name' })),
+        ...[...new Set(addresses)].map((address): DetectedEntity => ({ text: address, category: 'address' })),
+    ];
+};
+
+export const mockProvider: TranscriptionProvider = {
+    id: 'mock',
+    name: 'Mock (offline)',
+    capabilities: {
+        translation: true,
+        metrics: true,
+        offline: true,
+        diarization: true,
+        insights: true,
+        entities: true,
+    },
+    transcribe: async (base64Audio: string, _mimeType: string, { language, diarize }: TranscribeOptions) => {
+        return withConfidence(withLanguage(toTimedSegments(CANNED_TRANSCRIPTS[hashString(base64Audio) % CANNED_TRANSCRIPTS.length], diarize), language));
+    },
+    analyzeMetrics: async (text: string) => computeMockMetrics(text),
+    generateInsights: async (text: string) => computeMockInsights(text),
+    // Marks the text instead of translating it, which is enough to check the side-by-side view.
+    translate: async (texts: string[], targetLanguage: string) => texts.map(text => `[${targetLanguage}] ${text}`),
+    detectEntities: async (text: string) => computeMockEntities(text),
+};
+
+const postJson = <T>(url: string, body: unknown): Promise<T> => withRetry(async () => {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+    } catch (error) {
+        throw new ProviderError('network', `Could not reach the local provider at ${url}`, { cause: error });
+    }
+    if (!response.ok) {
+        throw errorFromStatus(response.status, `Local provider responded with ${response.status} ${response.statusText}`);
+    }
+    try {
+        return await response.json();
+    } catch (error) {
+        throw new ProviderError('malformed-response', `Local provider returned invalid JSON from ${url}`, { cause: error });
+    }
+});
+
+// Talks to a local stand-in server exposing `POST /transcribe` -> `{ segments }`
+// (or a plain `{ text }`), `POST /metrics` -> `WordMetrics`,
+// `POST /insights` -> `TranscriptInsights`, `POST /translate` -> `{ texts }`
+// and `POST /entities` -> `{ entities }`.
+export const createLocalHttpProvider = (baseUrl: string): TranscriptionProvider => {
+    const endpoint = baseUrl.replace(/\/+$/, '');
+    return {
+        id: 'local-http',
+        name: 'Local HTTP',
+        capabilities: {
+            translation: true,
+            metrics: true,
+            offline: true,
+            diarization: true,
+            insights: true,
+            entities: true,
+        },
+        transcribe: async (base64Audio: string, mimeType: string, { language, diarize, vocabulary }: TranscribeOptions) => {
+            const result = await postJson<{ segments?: TranscriptSegment[]; text?: string }>(`${endpoint}/transcribe`, { audio: base64Audio, mimeType, language, diarize, vocabulary });
+            if (result.segments) return normalizeSegments(result.segments);
+            return toTimedSegments(result.text ?? '');
+        },
+        analyzeMetrics: (text: string) => postJson<WordMetrics>(`${endpoint}/metrics`, { text }),
+        generateInsights: (text: string) => postJson<TranscriptInsights>(`${endpoint}/insights`, { text }),
+        translate: async (texts: string[], targetLanguage: string) => {
+            const result = await postJson<{ texts?: unknown }>(`${endpoint}/translate`, { texts, targetLanguage });
+            // The columns are aligned by index, so a shifted result would pair the wrong lines.
+            const translations = Array.isArray(result.texts) ? result.texts : [];
+            if (translations.length !== texts.length) {
+                throw new ProviderError('malformed-response', `Local provider returned ${translations.length} translations for ${texts.length} segments`);
+            }
+            if (!translations.every((text): text is string => typeof text === 'string')) {
+                throw new ProviderError('malformed-response', 'Local provider returned a translation that is not text');
+            }
+            return translations;
+        },
+        detectEntities: async (text: string) => {
+            const result = await postJson<{ entities?: DetectedEntity[] }>(`${endpoint}/entities`, { text });
+            return result.entities ?? [];
+        },
+    };
+};
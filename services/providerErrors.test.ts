@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { backoffDelay, classifyError, describeError, errorFromStatus, ProviderError, withRetry } from "./providerErrors";
+
+describe('classifyError', () => {
+    it.each([
+        [401, 'auth'],
+        [403, 'auth'],
+        [400, 'bad-request'],
+        [413, 'payload-too-large'],
+        [429, 'rate-limit'],
+        [500, 'unavailable'],
+        [503, 'unavailable'],
+    ])('maps status %i to %s', (status, kind) => {
+        expect(classifyError(Object.assign(new Error('failed'), { status })).kind).toBe(kind);
+    });
+
+    it('falls back to the message when there is no status', () => {
+        expect(classifyError(new Error('RESOURCE_EXHAUSTED: quota exceeded')).kind).toBe('rate-limit');
+        expect(classifyError(new Error('Request payload size exceeds the limit')).kind).toBe('payload-too-large');
+        expect(classifyError(new Error('INVALID_ARGUMENT: Invalid JSON payload received')).kind).toBe('bad-request');
+        expect(classifyError(new Error('Invalid JSON payload received')).kind).not.toBe('payload-too-large');
+        expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('network');
+        expect(classifyError(new SyntaxError('Unexpected end of JSON input')).kind).toBe('malformed-response');
+        expect(classifyError('something odd').kind).toBe('unknown');
+    });
+
+    it('prefixes the context and keeps the kind of a ProviderError', () => {
+        const error = classifyError(errorFromStatus(429, 'slow down'), 'Transcription failed');
+        expect(error.kind).toBe('rate-limit');
+        expect(error.status).toBe(429);
+        expect(error.message).toBe('Transcription failed: slow down');
+    });
+});
+
+describe('describeError', () => {
+    it('uses the fallback only for unknown errors', () => {
+        expect(describeError(new Error('odd'), 'fallback')).toBe('fallback');
+        expect(describeError(errorFromStatus(503, 'down'), 'fallback')).toMatch(/temporarily unavailable/);
+    });
+});
+
+describe('backoffDelay', () => {
+    it('doubles per attempt within the jitter and caps at a minute', () => {
+        for (let attempt = 1; attempt <= 4; attempt++) {
+            const delay = backoffDelay(attempt, 1000);
+            expect(delay).toBeGreaterThanOrEqual(0.75 * 1000 * 2 ** (attempt - 1));
+            expect(delay).toBeLessThanOrEqual(1.25 * 1000 * 2 ** (attempt - 1));
+        }
+        expect(backoffDelay(20, 1000)).toBeLessThanOrEqual(1.25 * 60000);
+    });
+});
+
+describe('withRetry', () => {
+    beforeEach(() => { vi.useFakeTimers(); });
+    afterEach(() => { vi.useRealTimers(); });
+
+    const settle = async <T>(promise: Promise<T>): Promise<{ value?: T; error?: unknown }> => {
+        const result = promise.then(value => ({ value }), error => ({ error }));
+        await vi.runAllTimersAsync();
+        return result;
+    };
+
+    it('returns the first success without waiting', async () => {
+        const operation = vi.fn().mockResolvedValue('ok');
+        expect(await withRetry(operation)).toBe('ok');
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry errors that are not transient', async () => {
+        const operation = vi.fn().mockRejectedValue(errorFromStatus(401, 'denied'));
+        const { error } = await settle(withRetry(operation));
+        expect((error as ProviderError).kind).toBe('auth');
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries transient errors up to three attempts by default', async () => {
+        const operation = vi.fn().mockRejectedValue(errorFromStatus(503, 'down'));
+        const { error } = await settle(withRetry(operation));
+        expect(error).toBeInstanceOf(ProviderError);
+        expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('honours the attempts option', async () => {
+        const operation = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+        await settle(withRetry(operation, { attempts: 5 }));
+        expect(operation).toHaveBeenCalledTimes(5);
+    });
+
+    it('stops retrying once an attempt succeeds', async () => {
+        const operation = vi.fn()
+            .mockRejectedValueOnce(errorFromStatus(429, 'slow down'))
+            .mockRejectedValueOnce(errorFromStatus(429, 'slow down'))
+            .mockResolvedValue('ok');
+        const { value } = await settle(withRetry(operation, { attempts: 5 }));
+        expect(value).toBe('ok');
+        expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('turns anything thrown into a ProviderError', async () => {
+        const { error } = await settle(withRetry(() => Promise.reject(new Error('odd'))));
+        expect(error).toBeInstanceOf(ProviderError);
+        expect((error as ProviderError).kind).toBe('unknown');
+    });
+});
@@ -0,0 +1,119 @@
+export type ProviderErrorKind =
+    | 'missing-key'
+    | 'auth'
+    | 'rate-limit'
+    | 'payload-too-large'
+    | 'network'
+    | 'unavailable'
+    | 'malformed-response'
+    | 'bad-request'
+    | 'unknown';
+
+// Worth retrying automatically: the same request may well succeed a moment later.
+const TRANSIENT_KINDS = new Set<ProviderErrorKind>(['rate-limit', 'network', 'unavailable']);
+
+export class ProviderError extends Error {
+    readonly kind: ProviderErrorKind;
+    // HTTP status, when the failure came from a response.
+    readonly status?: number;
+
+    constructor(kind: ProviderErrorKind, message: string, { status, cause }: { status?: number; cause?: unknown } = {}) {
+        super(message, { cause });
+        this.name = 'ProviderError';
+        this.kind = kind;
+        this.status = status;
+    }
+
+    get transient(): boolean {
+        return TRANSIENT_KINDS.has(this.kind);
+    }
+}
+
+const kindFromStatus = (status: number): ProviderErrorKind | null => {
+    if (status === 400) return 'bad-request';
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 413) return 'payload-too-large';
+    if (status === 429) return 'rate-limit';
+    if (status >= 500) return 'unavailable';
+    return null;
+};
+
+export const errorFromStatus = (status: number, message: string): ProviderError =>
+    new ProviderError(kindFromStatus(status) ?? 'unknown', message, { status });
+
+// The Gemini SDK puts the API's status text in the message, and fetch only
+// reports network failures as a TypeError, so the message is checked as well.
+const kindFromMessage = (error: unknown, message: string): ProviderErrorKind => {
+    if (/api.?key not valid|api_key_invalid|permission.?denied|unauthenticated/i.test(message)) return 'auth';
+    if (/resource.?exhausted|quota|rate.?limit|too many requests/i.test(message)) return 'rate-limit';
+    if (/request entity too large|payload size exceeds|exceeds the maximum|too large/i.test(message)) return 'payload-too-large';
+    if (/invalid.?argument|bad request/i.test(message)) return 'bad-request';
+    if (/unavailable|overloaded|deadline.?exceeded|internal error/i.test(message)) return 'unavailable';
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return 'network';
+    if (/network|failed to fetch|econnrefused|econnreset|etimedout/i.test(message)) return 'network';
+    if (error instanceof SyntaxError) return 'malformed-response';
+    return 'unknown';
+};
+
+// Turns anything thrown by a provider call into a ProviderError. `context`
+// prefixes the message, e.g. "Transcription failed".
+export const classifyError = (error: unknown, context?: string): ProviderError => {
+    const message = error instanceof Error ? error.message : String(error);
+    const prefixed = context ? `${context}: ${message}` : message;
+    if (error instanceof ProviderError) {
+        return context ? new ProviderError(error.kind, prefixed, { status: error.status, cause: error.cause }) : error;
+    }
+    const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+    const statusKind = status !== undefined ? kindFromStatus(status) : null;
+    const messageKind = kindFromMessage(error, message);
+    // Gemini answers a 400 for a rejected key or an oversized request as well as
+    // for a malformed one, so a more specific message takes precedence.
+    const kind = statusKind === 'bad-request' && messageKind !== 'unknown' ? messageKind : statusKind ?? messageKind;
+    return new ProviderError(kind, prefixed, { status, cause: error });
+};
+
+const MAX_DELAY_MS = 60000;
+
+// Doubles with each attempt, with jitter so requests that failed together don't retry together.
+export const backoffDelay = (attempt: number, baseDelayMs: number): number => {
+    const delay = Math.min(MAX_DELAY_MS, baseDelayMs * 2 ** Math.max(0, attempt - 1));
+    return Math.round(delay * (0.75 + Math.random() * 0.5));
+};
+
+export interface RetryOptions {
+    // Including the first try.
+    attempts?: number;
+    baseDelayMs?: number;
+}
+
+// Retries transient failures with exponential backoff and rethrows anything
+// else straight away, always as a ProviderError.
+export const withRetry = async <T>(operation: () => Promise<T>, { attempts = 3, baseDelayMs = 1000 }: RetryOptions = {}): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (err) {
+            const error = classifyError(err);
+            if (!error.transient || attempt >= attempts) throw error;
+            await new Promise(resolve => setTimeout(resolve, backoffDelay(attempt, baseDelayMs)));
+        }
+    }
+};
+
+const MESSAGES: Record<Exclude<ProviderErrorKind, 'unknown'>, string> = {
+    'missing-key': "No Gemini API key is set. Add API_KEY to .env.local and restart the app, or choose an offline provider in Settings.",
+    'auth': "The API key was rejected. Check that it is correct and has access to the Gemini API.",
+    'rate-limit': "The AI service's rate limit or quota was reached. Wait a minute and try again, or check your plan's quota.",
+    'payload-too-large': "The audio is too large to send in one request. Turn on \"Clean up audio before upload\" or trim the recording first.",
+    'network': "Could not reach the transcription service. Check your internet connection, or that the local provider is running.",
+    'unavailable': "The AI service is temporarily unavailable. Please try again in a few minutes.",
+    'malformed-response': "The AI returned a response that could not be read. Please try again.",
+    'bad-request': "The AI service rejected the request as invalid. Please try again, and if it keeps failing try another file or provider.",
+};
+
+// A user-facing message that says what went wrong and what to do about it.
+// `fallback` is used for errors that don't match a known kind.
+export const describeError = (error: unknown, fallback: string): string => {
+    const { kind } = classifyError(error);
+    return kind === 'unknown' ? fallback : MESSAGES[kind];
+};
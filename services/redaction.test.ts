@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { TranscriptSegment } from "./transcriptionProvider";
+import { applyRedactions, detectPersonalData, locateEntities, mergeMatches } from "./redaction";
+
+const segments = (...texts: string[]): TranscriptSegment[] => texts.map((text, index) => ({ start: index, end: index + 1, text }));
+
+const detected = (text: string) => detectPersonalData(segments(text)).map(match => [match.category, match.text]);
+
+describe('detectPersonalData', () => {
+    it('finds emails, card numbers and ID numbers', () => {
+        expect(detected('Mail jane.doe@example.com, card 4111 1111 1111 1111, SSN 123-45-6789.')).toEqual([
+            ['email', 'jane.doe@example.com'],
+            ['card', '4111 1111 1111 1111'],
+            ['id', '123-45-6789'],
+        ]);
+    });
+
+    it('ignores long numbers that fail the card checksum', () => {
+        expect(detected('Order 4111 1111 1111 1112 shipped.')).toEqual([]);
+    });
+
+    it.each([
+        '+1 (555) 123-4567',
+        '+44 20 7946 0958',
+        '(030) 1234 5678',
+        '030 1234 5678',
+        '555.987.6543',
+        '555-123-4567',
+    ])('finds the phone number %s', phone => {
+        expect(detected(`Call ${phone} today.`)).toEqual([['phone', phone]]);
+    });
+
+    it.each([
+        'We met on 12.05.2024 to plan.',
+        'The deadline is 2024-05-12.',
+        'It was 05/12/24 or so.',
+        'Revenue grew 12 345 678 last year.',
+        'Version 10.4.2024 is out.',
+    ])('does not report dates or plain numbers as phones: %s', text => {
+        expect(detected(text)).toEqual([]);
+    });
+});
+
+describe('mergeMatches', () => {
+    it('keeps a local match over a longer model match that starts earlier', () => {
+        const transcript = segments('Reach Ana at ana@example.com tomorrow.');
+        const local = detectPersonalData(transcript);
+        const model = locateEntities(transcript, [{ text: 'Ana at ana@example.com', category: 'name' }]);
+        expect(mergeMatches(local, model).map(match => [match.source, match.text])).toEqual([['pattern', 'ana@example.com']]);
+    });
+
+    it('adds model matches that do not overlap local ones, everywhere they occur', () => {
+        const transcript = segments('Maria Lopez called.', 'Call maria lopez on 555-123-4567.');
+        const merged = mergeMatches(detectPersonalData(transcript), locateEntities(transcript, [{ text: 'Maria Lopez', category: 'name' }]));
+        expect(merged.map(match => [match.segmentIndex, match.category, match.text])).toEqual([
+            [0, 'name', 'Maria Lopez'],
+            [1, 'name', 'maria lopez'],
+            [1, 'phone', '555-123-4567'],
+        ]);
+    });
+});
+
+describe('applyRedactions', () => {
+    const transcript: TranscriptSegment[] = [{ start: 0, end: 2, text: 'Mail a@b.io or call 555-123-4567.', uncertain: [{ text: 'Mail', confidence: 0.4 }] }];
+
+    it('masks with category labels and drops confidence flags', () => {
+        expect(applyRedactions(transcript, detectPersonalData(transcript), 'label')).toEqual([
+            { start: 0, end: 2, text: 'Mail [EMAIL] or call [PHONE].' },
+        ]);
+    });
+
+    it('masks with asterisks', () => {
+        expect(applyRedactions(transcript, detectPersonalData(transcript), 'asterisks')[0].text).toBe('Mail *** or call ***.');
+    });
+});
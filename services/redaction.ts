@@ -0,0 +1,150 @@
+import type { DetectedEntity, EntityCategory, TranscriptSegment } from "./transcriptionProvider";
+
+export type MaskStyle = 'label' | 'asterisks';
+// 'pattern' matches come from the local detectors, 'model' ones from the provider.
+export type RedactionSource = 'pattern' | 'model';
+
+export interface RedactionMatch {
+    // Stable for the same span of text, so selections survive re-detection.
+    id: string;
+    segmentIndex: number;
+    // Character offsets into the segment text.
+    start: number;
+    end: number;
+    text: string;
+    category: EntityCategory;
+    source: RedactionSource;
+}
+
+export const CATEGORY_LABELS: Record<EntityCategory, string> = {
+    name: 'NAME',
+    address: 'ADDRESS',
+    email: 'EMAIL',
+    phone: 'PHONE',
+    card: 'CARD',
+    id: 'ID',
+};
+
+// Luhn checksum, so long numbers that aren't card numbers (order ids, amounts) are left alone.
+const isCardNumber = (value: string): boolean => {
+    const digits = value.replace(/\D/g, '');
+    if (digits.length < 13 || digits.length > 19) return false;
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+};
+
+const digitCount = (value: string): number => value.replace(/\D/g, '').length;
+
+// Day, month and year in either order, e.g. 12.05.2024, 05/12/24 or 2024-05-12.
+const looksLikeDate = (value: string): boolean => {
+    const parts = value.trim().split(/[ ./-]+/);
+    if (parts.length !== 3) return false;
+    const [first, second, third] = parts.map(Number);
+    const isDay = (n: number) => n >= 1 && n <= 31;
+    const isMonth = (n: number) => n >= 1 && n <= 12;
+    if (parts[0].length === 4) return isMonth(second) && isDay(third);
+    return (parts[2].length === 2 || parts[2].length === 4) && ((isDay(first) && isMonth(second)) || (isMonth(first) && isDay(second)));
+};
+
+const isPhoneNumber = (value: string): boolean => digitCount(value) >= 7 && digitCount(value) <= 15 && !looksLikeDate(value);
+
+// Checked in this order, so where two detectors match the same text the earlier one wins.
+const DETECTORS: { category: EntityCategory; pattern: RegExp; accept?: (value: string) => boolean }[] = [
+    { category: 'email', pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu },
+    { category: 'card', pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g, accept: isCardNumber },
+    // US social security numbers and IBANs.
+    { category: 'id', pattern: /(?<!\d)\d{3}-\d{2}-\d{4}(?!\d)/g },
+    { category: 'id', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+    // Phone numbers need a shape that dates, amounts and other number runs don't
+    // have: a country code, an area code in parentheses, a trunk prefix or 3-3-4 groups.
+    { category: 'phone', pattern: /(?<![\d+])\+\d{1,3}[ .-]?(?:\(\d{1,4}\)[ .-]?)?\d{1,4}(?:[ .-]?\d{2,4}){1,4}(?!\d)/g, accept: isPhoneNumber },
+    { category: 'phone', pattern: /(?<![\d+])\(\d{2,4}\)[ .-]?\d{3,4}[ .-]?\d{3,4}(?!\d)/g, accept: isPhoneNumber },
+    { category: 'phone', pattern: /(?<![\d+.-])0\d{2,4}[ /.-]?\d{3,4}[ .-]?\d{3,5}(?![\d.-]?\d)/g, accept: isPhoneNumber },
+    { category: 'phone', pattern: /(?<![\d+.-])\d{3}[ .-]\d{3}[ .-]\d{4}(?![\d.-]?\d)/g, accept: isPhoneNumber },
+];
+
+const matchId = (segmentIndex: number, start: number, end: number): string => `${segmentIndex}:${start}:${end}`;
+
+// Keeps the first of any overlapping matches, after ordering them by position
+// and then length, so the longer of two matches at the same place wins.
+const removeOverlaps = (matches: RedactionMatch[]): RedactionMatch[] => {
+    const sorted = matches
+        .map((match, order) => ({ match, order }))
+        .sort((a, b) => a.match.segmentIndex - b.match.segmentIndex
+            || a.match.start - b.match.start
+            || (b.match.end - b.match.start) - (a.match.end - a.match.start)
+            || a.order - b.order)
+        .map(({ match }) => match);
+    const kept: RedactionMatch[] = [];
+    for (const match of sorted) {
+        const last = kept[kept.length - 1];
+        if (last && last.segmentIndex === match.segmentIndex && match.start < last.end) continue;
+        kept.push(match);
+    }
+    return kept;
+};
+
+export const detectPersonalData = (segments: TranscriptSegment[]): RedactionMatch[] =>
+    removeOverlaps(segments.flatMap((segment, segmentIndex) =>
+        DETECTORS.flatMap(({ category, pattern, accept }) =>
+            [...segment.text.matchAll(pattern)]
+                .filter(match => !accept || accept(match[0]))
+                .map((match): RedactionMatch => {
+                    const start = match.index!;
+                    const end = start + match[0].length;
+                    return { id: matchId(segmentIndex, start, end), segmentIndex, start, end, text: match[0], category, source: 'pattern' };
+                }))));
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Finds every occurrence of the model's entities, so a name it reported once is
+// masked wherever it is mentioned. Entities it quoted inexactly are skipped.
+export const locateEntities = (segments: TranscriptSegment[], entities: DetectedEntity[]): RedactionMatch[] => {
+    const unique = new Map<string, DetectedEntity>();
+    for (const entity of entities) {
+        const text = entity.text?.trim();
+        if (text && text.length > 1 && entity.category in CATEGORY_LABELS) unique.set(text.toLowerCase(), { text, category: entity.category });
+    }
+    return [...unique.values()].flatMap(({ text, category }) => {
+        const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(text)}(?![\\p{L}\\p{N}])`, 'giu');
+        return segments.flatMap((segment, segmentIndex) => [...segment.text.matchAll(pattern)].map((match): RedactionMatch => {
+            const start = match.index!;
+            const end = start + match[0].length;
+            return { id: matchId(segmentIndex, start, end), segmentIndex, start, end, text: match[0], category, source: 'model' };
+        }));
+    });
+};
+
+const overlaps = (a: RedactionMatch, b: RedactionMatch): boolean =>
+    a.segmentIndex === b.segmentIndex && a.start < b.end && b.start < a.end;
+
+// Local matches take precedence over the model's where they overlap, wherever
+// either starts and whichever is longer.
+export const mergeMatches = (patternMatches: RedactionMatch[], modelMatches: RedactionMatch[]): RedactionMatch[] =>
+    removeOverlaps([
+        ...patternMatches,
+        ...modelMatches.filter(match => !patternMatches.some(pattern => overlaps(pattern, match))),
+    ]);
+
+export const maskText = (match: RedactionMatch, style: MaskStyle): string =>
+    style === 'label' ? `[${CATEGORY_LABELS[match.category]}]` : '***';
+
+// Replaces the matches in the segment text. Word confidence flags are dropped,
+// since they quote the original words.
+export const applyRedactions = (segments: TranscriptSegment[], matches: RedactionMatch[], style: MaskStyle): TranscriptSegment[] =>
+    segments.map((segment, segmentIndex) => {
+        const { uncertain: _uncertain, ...rest } = segment;
+        const text = matches
+            .filter(match => match.segmentIndex === segmentIndex)
+            .sort((a, b) => b.start - a.start)
+            .reduce((result, match) => result.slice(0, match.start) + maskText(match, style) + result.slice(match.end), segment.text);
+        return { ...rest, text };
+    });
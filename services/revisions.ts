@@ -0,0 +1,31 @@
+import type { Revision, RevisionSource } from "../types";
+import type { ProviderId, TranscriptSegment } from "./transcriptionProvider";
+import { transcriptToText } from "./transcript";
+import type { SpeakerMap } from "./transcript";
+
+export const revisionText = (revision: Revision): string => transcriptToText(revision.segments, revision.speakers);
+
+// Appends a snapshot of the transcript, unless it reads exactly like the latest revision.
+export const appendRevision = (
+    revisions: Revision[],
+    source: RevisionSource,
+    segments: TranscriptSegment[],
+    speakers: SpeakerMap,
+    extra: Pick<Revision, 'provider' | 'restoredFrom'> = {},
+): Revision[] => {
+    const latest = revisions[revisions.length - 1];
+    if (latest && revisionText(latest) === transcriptToText(segments, speakers)) return revisions;
+    return [...revisions, {
+        id: `${Date.now()}-${revisions.length}`,
+        date: new Date().toISOString(),
+        source,
+        segments,
+        speakers,
+        ...extra,
+    }];
+};
+
+export const revisionLabel = (revision: Revision, index: number): string => {
+    const kind = revision.source === 'transcription' ? 'AI transcription' : revision.restoredFrom ? 'Restored edit' : 'Manual edit';
+    return `#${index + 1} ${kind} · ${new Date(revision.date).toLocaleString()}`;
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import type { Session } from "../types";
+import { createSearchIndex, SearchResult } from "./searchIndex";
+
+const session = (id: string, name: string, text: string, extra: Partial<Session> = {}): Session =>
+    ({ id, name, text, date: '2024-01-01T00:00:00.000Z', ...extra });
+
+const search = (sessions: Session[], query: string): SearchResult[] => {
+    const index = createSearchIndex();
+    index.sync(sessions);
+    return index.search(query);
+};
+
+const highlighted = (result: SearchResult): string[] => result.highlights.map(({ start, end }) => result.snippet.slice(start, end));
+
+describe('search ranking', () => {
+    it('ranks a match in the name above a passing mention in the transcript', () => {
+        const results = search([
+            session('mention', 'Standup', 'We discussed the budget briefly.'),
+            session('named', 'Budget review', 'Numbers went up.'),
+        ], 'budget');
+        expect(results.map(r => r.session.id)).toEqual(['named', 'mention']);
+    });
+
+    it('ranks tags between the name and the transcript', () => {
+        const results = search([
+            session('text', 'A', 'hiring plans'),
+            session('tag', 'B', 'other things', { tags: ['Hiring'] }),
+            session('name', 'Hiring sync', 'other things'),
+        ], 'hiring');
+        expect(results.map(r => r.session.id)).toEqual(['name', 'tag', 'text']);
+    });
+
+    it('dampens long transcripts so they do not win on volume', () => {
+        const results = search([
+            session('long', 'A', `budget budget ${'filler '.repeat(200)}`),
+            session('short', 'B', 'budget'),
+        ], 'budget');
+        expect(results.map(r => r.session.id)).toEqual(['short', 'long']);
+    });
+
+    it('requires every query term to match somewhere', () => {
+        const sessions = [session('1', 'Standup', 'budget talk'), session('2', 'Budget review', 'numbers')];
+        expect(search(sessions, 'budget standup').map(r => r.session.id)).toEqual(['1']);
+    });
+
+    it('matches only the last term as a prefix', () => {
+        const sessions = [session('1', 'Budget review', 'numbers')];
+        expect(search(sessions, 'review bud')).toHaveLength(1);
+        expect(search(sessions, 'bud review')).toHaveLength(0);
+    });
+
+    it('drops sessions removed since the last sync', () => {
+        const index = createSearchIndex();
+        index.sync([session('1', 'Budget', ''), session('2', 'Budget', '')]);
+        index.sync([session('2', 'Budget', '')]);
+        expect(index.search('budget').map(r => r.session.id)).toEqual(['2']);
+    });
+});
+
+describe('search matching', () => {
+    it('ignores case and accents in both directions', () => {
+        expect(highlighted(search([session('1', 'A', 'Mein Résumé ist fertig.')], 'RESUME')[0])).toEqual(['Résumé']);
+        expect(highlighted(search([session('1', 'A', 'Send the resume.')], 'résumé')[0])).toEqual(['resume']);
+    });
+
+    it('keeps highlight offsets on the original text when normalising changes its length', () => {
+        // "ﬁ" is one character that normalises to two.
+        const [result] = search([session('1', 'A', 'The ﬁnal ﬁnal plan.')], 'plan');
+        expect(result.highlights).toEqual([{ start: 14, end: 18 }]);
+        expect(highlighted(result)).toEqual(['plan']);
+        expect(highlighted(search([session('1', 'A', 'The ﬁnal plan.')], 'final')[0])).toEqual(['ﬁnal']);
+    });
+
+    it('highlights every occurrence and the whole word for a prefix', () => {
+        const [result] = search([session('1', 'A', 'Budgets and the budget.')], 'budg');
+        expect(highlighted(result)).toEqual(['Budgets', 'budget']);
+    });
+});
+
+describe('search snippets', () => {
+    const before = 'word '.repeat(30);
+    const after = ' word'.repeat(30);
+
+    it('cuts around the first match at word boundaries and shifts the highlights', () => {
+        const [result] = search([session('1', 'A', `${before}budget${after}`)], 'budget');
+        expect(result.snippet.startsWith('…word ')).toBe(true);
+        expect(result.snippet.endsWith(' word…')).toBe(true);
+        expect(highlighted(result)).toEqual(['budget']);
+    });
+
+    it('leaves out highlights that fall outside the snippet', () => {
+        const [result] = search([session('1', 'A', `budget ${'word '.repeat(40)}budget`)], 'budget');
+        expect(result.snippet.startsWith('budget')).toBe(true);
+        expect(result.highlights).toEqual([{ start: 0, end: 6 }]);
+    });
+
+    it('shows the start of the transcript when only the name matches', () => {
+        const [result] = search([session('1', 'Budget', 'Nothing relevant here.')], 'budget');
+        expect(result.snippet).toBe('Nothing relevant here.');
+        expect(result.highlights).toEqual([]);
+        expect(result.segmentIndex).toBeNull();
+    });
+
+    it('locates the first match within the segments', () => {
+        const [result] = search([session('1', 'A', 'Hello.\nThe Résumé is done.', {
+            segments: [{ start: 0, end: 1, text: 'Hello.' }, { start: 1, end: 3, text: 'The Résumé is done.' }],
+        })], 'resume');
+        expect(result).toMatchObject({ segmentIndex: 1, matchStart: 4, matchEnd: 10 });
+    });
+});
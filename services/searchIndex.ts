@@ -0,0 +1,175 @@
+import type { Session } from "../types";
+import { textToSegments } from "./transcript";
+
+type Field = 'name' | 'tags' | 'text';
+
+// Matches in the name or tags say more about a session than a passing mention in the transcript.
+const FIELD_WEIGHTS: Record<Field, number> = { name: 3, tags: 2, text: 1 };
+const SNIPPET_RADIUS = 60;
+
+interface IndexedSession {
+    session: Session;
+    // Term frequencies per field.
+    terms: Record<Field, Map<string, number>>;
+    length: number;
+}
+
+export interface SearchHighlight {
+    start: number;
+    end: number;
+}
+
+export interface SearchResult {
+    session: Session;
+    score: number;
+    snippet: string;
+    highlights: SearchHighlight[];
+    // Where the first match sits in the transcript, for jumping to it after loading.
+    segmentIndex: number | null;
+    matchStart: number;
+    matchEnd: number;
+}
+
+export interface SearchIndex {
+    // Re-indexes only sessions whose objects changed since the last sync.
+    sync: (sessions: Session[]) => void;
+    search: (query: string, limit?: number) => SearchResult[];
+}
+
+// Lower-cases and strips accents so "resume" finds "Résumé".
+const normalize = (text: string): string => text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const tokenize = (text: string): string[] => normalize(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+
+const countTerms = (text: string): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) counts.set(token, (counts.get(token) ?? 0) + 1);
+    return counts;
+};
+
+const indexSession = (session: Session): IndexedSession => {
+    const terms = {
+        name: countTerms(session.name),
+        tags: countTerms((session.tags ?? []).join(' ')),
+        text: countTerms(session.text),
+    };
+    return { session, terms, length: [...terms.text.values()].reduce((sum, n) => sum + n, 0) };
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Finds every occurrence of the query terms in `text`, accent- and case-insensitively.
+// The last term also matches as a prefix so results appear while typing.
+const findMatches = (text: string, queryTerms: string[]): SearchHighlight[] => {
+    // NFKD can change string length, so normalise character by character and keep a map back to the original offsets.
+    let normalized = '';
+    const offsets: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const chunk = normalize(text[i]);
+        normalized += chunk;
+        for (let j = 0; j < chunk.length; j++) offsets.push(i);
+    }
+    offsets.push(text.length);
+
+    const patterns = queryTerms.map((term, i) => escapeRegExp(term) + (i === queryTerms.length - 1 ? '[\\p{L}\\p{N}]*' : '(?![\\p{L}\\p{N}])'));
+    const regex = new RegExp(`(?<![\\p{L}\\p{N}])(?:${patterns.join('|')})`, 'gu');
+    const matches: SearchHighlight[] = [];
+    for (const match of normalized.matchAll(regex)) {
+        matches.push({ start: offsets[match.index!], end: offsets[match.index! + match[0].length] });
+    }
+    return matches;
+};
+
+const termFrequency = (terms: Map<string, number>, queryTerm: string, isPrefix: boolean): number => {
+    if (!isPrefix) return terms.get(queryTerm) ?? 0;
+    let total = 0;
+    for (const [term, count] of terms) if (term.startsWith(queryTerm)) total += count;
+    return total;
+};
+
+const buildSnippet = (text: string, matches: SearchHighlight[]): Pick<SearchResult, 'snippet' | 'highlights'> => {
+    if (matches.length === 0) {
+        const snippet = text.slice(0, SNIPPET_RADIUS * 2);
+        return { snippet: snippet.length < text.length ? `${snippet}…` : snippet, highlights: [] };
+    }
+    const first = matches[0];
+    let from = Math.max(0, first.start - SNIPPET_RADIUS);
+    let to = Math.min(text.length, first.end + SNIPPET_RADIUS);
+    // Don't cut words in half at the edges.
+    if (from > 0) from = text.indexOf(' ', from) + 1 || from;
+    if (to < text.length) to = text.lastIndexOf(' ', to) > first.end ? text.lastIndexOf(' ', to) : to;
+
+    const prefix = from > 0 ? '…' : '';
+    const suffix = to < text.length ? '…' : '';
+    const highlights = matches
+        .filter(match => match.start >= from && match.end <= to)
+        .map(match => ({ start: match.start - from + prefix.length, end: match.end - from + prefix.length }));
+    return { snippet: prefix + text.slice(from, to).replace(/\n/g, ' ') + suffix, highlights };
+};
+
+// Locates a text match inside the segment list, returning the segment and the match offsets within it.
+const locateInSegments = (session: Session, queryTerms: string[]): Pick<SearchResult, 'segmentIndex' | 'matchStart' | 'matchEnd'> => {
+    const segments = session.segments ?? textToSegments(session.text);
+    for (let i = 0; i < segments.length; i++) {
+        const [match] = findMatches(segments[i].text, queryTerms);
+        if (match) return { segmentIndex: i, matchStart: match.start, matchEnd: match.end };
+    }
+    return { segmentIndex: null, matchStart: 0, matchEnd: 0 };
+};
+
+export const createSearchIndex = (): SearchIndex => {
+    const entries = new Map<string, IndexedSession>();
+
+    const sync = (sessions: Session[]) => {
+        const ids = new Set(sessions.map(session => session.id));
+        for (const id of entries.keys()) if (!ids.has(id)) entries.delete(id);
+        for (const session of sessions) {
+            if (entries.get(session.id)?.session !== session) entries.set(session.id, indexSession(session));
+        }
+    };
+
+    // TF-IDF over the weighted fields. Every query term must match somewhere in a session.
+    const search = (query: string, limit = 50): SearchResult[] => {
+        const queryTerms = tokenize(query);
+        if (queryTerms.length === 0) return [];
+
+        const fields = Object.keys(FIELD_WEIGHTS) as Field[];
+        const all = [...entries.values()];
+        const isPrefix = (i: number) => i === queryTerms.length - 1;
+        const idfs = queryTerms.map((queryTerm, i) => {
+            const documentFrequency = all.filter(entry =>
+                fields.some(field => termFrequency(entry.terms[field], queryTerm, isPrefix(i)) > 0)).length;
+            return Math.log(1 + all.length / Math.max(1, documentFrequency));
+        });
+
+        const results: SearchResult[] = [];
+        for (const entry of all) {
+            let score = 0;
+            let matchedAll = true;
+            queryTerms.forEach((queryTerm, i) => {
+                let termScore = 0;
+                for (const field of fields) {
+                    const tf = termFrequency(entry.terms[field], queryTerm, isPrefix(i));
+                    if (tf === 0) continue;
+                    // Dampen long transcripts so they don't win on volume alone.
+                    const normalizedTf = field === 'text' ? tf / Math.sqrt(Math.max(1, entry.length)) : tf;
+                    termScore += FIELD_WEIGHTS[field] * normalizedTf * idfs[i];
+                }
+                if (termScore === 0) matchedAll = false;
+                score += termScore;
+            });
+            if (!matchedAll) continue;
+
+            const { session } = entry;
+            results.push({
+                session,
+                score,
+                ...buildSnippet(session.text, findMatches(session.text, queryTerms)),
+                ...locateInSegments(session, queryTerms),
+            });
+        }
+        return results.sort((a, b) => b.score - a.score).slice(0, limit);
+    };
+
+    return { sync, search };
+};
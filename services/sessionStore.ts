@@ -0,0 +1,139 @@
+import type { Session } from "../types";
+import { parseSession } from "./sessionValidation";
+
+// Sessions and their audio are stored in IndexedDB, which has no practical
+// size ceiling compared to localStorage. Audio blobs have their own store so
+// listing sessions never reads recordings into memory.
+const DB_NAME = 'robo-ai-transcription';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const AUDIO_STORE = 'audio';
+
+// Sessions were kept in localStorage under this key before IndexedDB was used.
+export const LEGACY_SESSIONS_STORAGE_KEY = 'robo-ai-transcription-sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                    db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+                    db.createObjectStore(AUDIO_STORE);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+            // Another tab still has an older version open; fail rather than wait indefinitely.
+            request.onblocked = () => {
+                dbPromise = null;
+                reject(new Error("The session database is open in another tab with an older version. Close other tabs of this app and reload."));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const completeTransaction = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+// Newest first, matching the order sessions are shown in.
+export const listSessions = async (): Promise<Session[]> => {
+    const db = await openDb();
+    const sessions = await promisifyRequest<Session[]>(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll());
+    return sessions.sort((a, b) => b.date.localeCompare(a.date));
+};
+
+export const putSessions = async (sessions: Session[]): Promise<void> => {
+    if (sessions.length === 0) return;
+    const db = await openDb();
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(SESSIONS_STORE);
+    sessions.forEach(session => store.put(session));
+    return completeTransaction(transaction);
+};
+
+export const deleteSessions = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    const db = await openDb();
+    const transaction = db.transaction([SESSIONS_STORE, AUDIO_STORE], 'readwrite');
+    ids.forEach(id => {
+        transaction.objectStore(SESSIONS_STORE).delete(id);
+        transaction.objectStore(AUDIO_STORE).delete(id);
+    });
+    return completeTransaction(transaction);
+};
+
+export const putAudio = async (id: string, audio: Blob): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction(AUDIO_STORE, 'readwrite');
+    transaction.objectStore(AUDIO_STORE).put(audio, id);
+    return completeTransaction(transaction);
+};
+
+export const getAudio = async (id: string): Promise<Blob | null> => {
+    const db = await openDb();
+    const audio = await promisifyRequest<Blob | undefined>(db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).get(id));
+    return audio ?? null;
+};
+
+export interface LegacyMigration {
+    migrated: number;
+    // Entries without a valid id, name, text or date. They are left in
+    // localStorage rather than deleted.
+    skipped: number;
+}
+
+// Copies sessions saved by older versions out of localStorage. Entries whose id
+// already exists in IndexedDB are left alone, and the localStorage key is only
+// cleared once everything has been written.
+export const migrateLegacySessions = async (): Promise<LegacyMigration> => {
+    const raw = window.localStorage.getItem(LEGACY_SESSIONS_STORAGE_KEY);
+    if (!raw) return { migrated: 0, skipped: 0 };
+
+    let legacy: unknown;
+    try {
+        legacy = JSON.parse(raw);
+    } catch (error) {
+        console.error("Legacy sessions are not valid JSON; leaving them in place:", error);
+        return { migrated: 0, skipped: 0 };
+    }
+    if (!Array.isArray(legacy)) return { migrated: 0, skipped: 0 };
+
+    // A session with a missing date or text would break sorting and rendering
+    // for the whole library once it is in IndexedDB.
+    const invalid: unknown[] = [];
+    const valid: Session[] = [];
+    for (const entry of legacy) {
+        const session = parseSession(entry);
+        if (session) valid.push(session);
+        else invalid.push(entry);
+    }
+
+    const existingIds = new Set((await listSessions()).map(session => session.id));
+    const toImport = valid.filter(session => !existingIds.has(session.id));
+    await putSessions(toImport);
+    if (invalid.length > 0) {
+        console.warn(`Skipped ${invalid.length} legacy session(s) without a valid id, name, text or date; leaving them in localStorage.`);
+        window.localStorage.setItem(LEGACY_SESSIONS_STORAGE_KEY, JSON.stringify(invalid));
+    } else {
+        window.localStorage.removeItem(LEGACY_SESSIONS_STORAGE_KEY);
+    }
+    return { migrated: toImport.length, skipped: invalid.length };
+};
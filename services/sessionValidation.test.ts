@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { Session } from "../types";
+import { parseSession } from "./sessionValidation";
+
+const BASE = { id: '1', name: 'Standup', text: 'Hello.', date: '2024-01-01T00:00:00.000Z' };
+
+const complete: Session = {
+    ...BASE,
+    segments: [{ start: 0, end: 1, text: 'Hello.', speaker: 'Speaker 1', uncertain: [{ text: 'Hello', confidence: 0.4 }] }],
+    speakers: { 'Speaker 1': 'Ana' },
+    metrics: { verbCount: 1, nounCount: 2, adjectiveCount: 0, conjunctionCount: 0, profanityCount: 0 },
+    insights: { summary: 'Short.', keyPoints: ['One'], actionItems: [{ task: 'Ship', owner: 'Ana' }], decisions: [] },
+    folder: 'Team',
+    tags: ['weekly'],
+    language: 'English',
+    languageDetection: { language: 'English', confidence: 0.9, languages: [{ language: 'English', share: 1 }] },
+    diarize: true,
+    duration: 12,
+    provider: 'gemini',
+    hasAudio: true,
+    translations: [{ language: 'Spanish', date: BASE.date, segments: [{ start: 0, end: 1, text: 'Hola.' }] }],
+    revisions: [{ id: 'r1', date: BASE.date, source: 'transcription', segments: [{ start: 0, end: 1, text: 'Hello.' }], speakers: {}, provider: 'gemini' }],
+    redacted: true,
+    redactedFrom: '0',
+};
+
+describe('parseSession', () => {
+    it('keeps a well-formed session as it is', () => {
+        expect(parseSession(JSON.parse(JSON.stringify(complete)))).toEqual(complete);
+    });
+
+    it.each([
+        ['not an object', 'session'],
+        ['no id', { ...BASE, id: '' }],
+        ['a numeric id', { ...BASE, id: 1 }],
+        ['no name', { ...BASE, name: undefined }],
+        ['text that is not a string', { ...BASE, text: ['Hello.'] }],
+        ['no date', { ...BASE, date: undefined }],
+        ['a date that does not parse', { ...BASE, date: 'last week' }],
+    ])('rejects a session with %s', (_, value) => {
+        expect(parseSession(value)).toBeNull();
+    });
+
+    it('drops optional fields of the wrong type', () => {
+        expect(parseSession({
+            ...BASE,
+            segments: 'Hello.',
+            speakers: ['Ana'],
+            metrics: { verbCount: 'many' },
+            insights: { keyPoints: [] },
+            folder: 3,
+            tags: 'weekly',
+            languageDetection: { language: 'English' },
+            duration: 'long',
+            provider: 'openai',
+            translations: {},
+            revisions: null,
+        })).toEqual(BASE);
+    });
+
+    it('drops malformed entries inside lists and maps', () => {
+        const session = parseSession({
+            ...BASE,
+            segments: [{ start: 0, end: 1, text: 'Kept.' }, { start: '0', end: 1, text: 'Bad start.' }, { start: 0, end: 1 }, null],
+            speakers: { 'Speaker 1': 'Ana', 'Speaker 2': 7 },
+            tags: ['weekly', 3],
+            insights: { summary: 'Short.', keyPoints: ['One', 2], actionItems: [{ owner: 'Ana' }], decisions: 'none' },
+            translations: [{ language: 'Spanish', date: BASE.date }, { language: 'French', date: BASE.date, segments: [] }],
+            revisions: [{ id: 'r1', date: BASE.date, source: 'guess', segments: [] }, { id: 'r2', date: BASE.date, source: 'edit', segments: [] }],
+        });
+        expect(session).toEqual({
+            ...BASE,
+            segments: [{ start: 0, end: 1, text: 'Kept.' }],
+            speakers: { 'Speaker 1': 'Ana' },
+            tags: ['weekly'],
+            insights: { summary: 'Short.', keyPoints: ['One'], actionItems: [], decisions: [] },
+            translations: [{ language: 'French', date: BASE.date, segments: [] }],
+            revisions: [{ id: 'r2', date: BASE.date, source: 'edit', segments: [], speakers: {} }],
+        });
+    });
+
+    it('leaves out fields it does not know', () => {
+        expect(parseSession({ ...BASE, extra: true })).toEqual(BASE);
+    });
+});
@@ -0,0 +1,131 @@
+import type { Revision, RevisionSource, Session, Translation } from "../types";
+import { PROVIDER_OPTIONS } from "./transcriptionProvider";
+import type { ActionItem, ConfidenceSpan, ProviderId, TranscriptInsights, TranscriptSegment, WordMetrics } from "./transcriptionProvider";
+import type { LanguageDetection, SpeakerMap } from "./transcript";
+
+// Sessions read from backups and from older versions of the app are untrusted
+// JSON. A session needs an id, name, text and a parseable date; optional fields
+// without the expected shape are dropped, so a hand-edited file can't crash the
+// library list, its filters or the transcript view later on.
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isDate = (value: unknown): value is string => isString(value) && !Number.isNaN(Date.parse(value));
+
+const REVISION_SOURCES: RevisionSource[] = ['transcription', 'edit'];
+
+const isProviderId = (value: unknown): value is ProviderId => PROVIDER_OPTIONS.some(option => option.id === value);
+
+// Keeps the entries that parse and drops the rest; anything but an array is dropped entirely.
+const parseList = <T>(value: unknown, parse: (item: unknown) => T | null): T[] | undefined =>
+    Array.isArray(value) ? value.map(parse).filter((item): item is T => item !== null) : undefined;
+
+const parseString = (value: unknown): string | null => (isString(value) ? value : null);
+
+const parseSpan = (value: unknown): ConfidenceSpan | null =>
+    isRecord(value) && isString(value.text) && isNumber(value.confidence) ? { text: value.text, confidence: value.confidence } : null;
+
+const parseSegment = (value: unknown): TranscriptSegment | null => {
+    if (!isRecord(value) || !isString(value.text) || !isNumber(value.start) || !isNumber(value.end)) return null;
+    const uncertain = parseList(value.uncertain, parseSpan);
+    return {
+        start: value.start,
+        end: value.end,
+        text: value.text,
+        ...(isString(value.speaker) && { speaker: value.speaker }),
+        ...(isString(value.language) && { language: value.language }),
+        ...(isNumber(value.languageConfidence) && { languageConfidence: value.languageConfidence }),
+        ...(uncertain && uncertain.length > 0 && { uncertain }),
+    };
+};
+
+const parseSpeakers = (value: unknown): SpeakerMap | undefined =>
+    isRecord(value) ? Object.fromEntries(Object.entries(value).filter(([, name]) => isString(name))) as SpeakerMap : undefined;
+
+const METRIC_KEYS: (keyof WordMetrics)[] = ['verbCount', 'nounCount', 'adjectiveCount', 'conjunctionCount', 'profanityCount'];
+
+const parseMetrics = (value: unknown): WordMetrics | undefined =>
+    isRecord(value) && METRIC_KEYS.every(key => isNumber(value[key])) ? value as unknown as WordMetrics : undefined;
+
+const parseActionItem = (value: unknown): ActionItem | null =>
+    isRecord(value) && isString(value.task) ? {
+        task: value.task,
+        ...(isString(value.owner) && { owner: value.owner }),
+        ...(isString(value.dueDate) && { dueDate: value.dueDate }),
+    } : null;
+
+const parseInsights = (value: unknown): TranscriptInsights | undefined =>
+    isRecord(value) && isString(value.summary) ? {
+        summary: value.summary,
+        keyPoints: parseList(value.keyPoints, parseString) ?? [],
+        actionItems: parseList(value.actionItems, parseActionItem) ?? [],
+        decisions: parseList(value.decisions, parseString) ?? [],
+    } : undefined;
+
+const parseLanguageShare = (value: unknown): LanguageDetection['languages'][number] | null =>
+    isRecord(value) && isString(value.language) && isNumber(value.share) ? { language: value.language, share: value.share } : null;
+
+const parseLanguageDetection = (value: unknown): LanguageDetection | undefined =>
+    isRecord(value) && isString(value.language) && isNumber(value.confidence) ? {
+        language: value.language,
+        confidence: value.confidence,
+        languages: parseList(value.languages, parseLanguageShare) ?? [],
+    } : undefined;
+
+const parseTranslation = (value: unknown): Translation | null => {
+    if (!isRecord(value) || !isString(value.language) || !isDate(value.date)) return null;
+    const segments = parseList(value.segments, parseSegment);
+    return segments ? { language: value.language, segments, date: value.date } : null;
+};
+
+const parseRevision = (value: unknown): Revision | null => {
+    if (!isRecord(value) || !isString(value.id) || !isDate(value.date)) return null;
+    const source = REVISION_SOURCES.find(candidate => candidate === value.source);
+    const segments = parseList(value.segments, parseSegment);
+    if (!source || !segments) return null;
+    return {
+        id: value.id,
+        date: value.date,
+        source,
+        segments,
+        speakers: parseSpeakers(value.speakers) ?? {},
+        ...(isProviderId(value.provider) && { provider: value.provider }),
+        ...(isString(value.restoredFrom) && { restoredFrom: value.restoredFrom }),
+    };
+};
+
+// Returns null when a required field is missing or has the wrong type.
+export const parseSession = (value: unknown): Session | null => {
+    if (!isRecord(value)) return null;
+    const { id, name, text, date } = value;
+    if (!isString(id) || !id || !isString(name) || !isString(text) || !isDate(date)) return null;
+
+    const optional: Omit<Session, 'id' | 'name' | 'text' | 'date'> = {
+        segments: parseList(value.segments, parseSegment),
+        speakers: parseSpeakers(value.speakers),
+        metrics: parseMetrics(value.metrics),
+        insights: parseInsights(value.insights),
+        folder: isString(value.folder) ? value.folder : undefined,
+        tags: parseList(value.tags, parseString),
+        language: isString(value.language) ? value.language : undefined,
+        languageDetection: parseLanguageDetection(value.languageDetection),
+        diarize: isBoolean(value.diarize) ? value.diarize : undefined,
+        duration: isNumber(value.duration) ? value.duration : undefined,
+        provider: isProviderId(value.provider) ? value.provider : undefined,
+        hasAudio: isBoolean(value.hasAudio) ? value.hasAudio : undefined,
+        translations: parseList(value.translations, parseTranslation),
+        revisions: parseList(value.revisions, parseRevision),
+        redacted: isBoolean(value.redacted) ? value.redacted : undefined,
+        redactedFrom: isString(value.redactedFrom) ? value.redactedFrom : undefined,
+    };
+    // Unset fields are left out rather than stored as undefined.
+    const present = Object.fromEntries(Object.entries(optional).filter(([, field]) => field !== undefined));
+    return { id, name, text, date, ...present };
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { buildCues, CaptionOptions, toSrt, toTimedJson, toWebVtt, wrapText } from "./subtitleExport";
+
+const options = (overrides: Partial<CaptionOptions> = {}): CaptionOptions => ({
+    maxLineLength: 42,
+    maxLinesPerCue: 2,
+    maxCueDuration: 7,
+    ...overrides,
+});
+
+describe('wrapText', () => {
+    it('wraps greedily at the line length', () => {
+        expect(wrapText('the quick brown fox jumps over', 10)).toEqual(['the quick', 'brown fox', 'jumps over']);
+    });
+
+    it('gives a word longer than the limit a line of its own', () => {
+        expect(wrapText('a extraordinarily b', 5)).toEqual(['a', 'extraordinarily', 'b']);
+    });
+
+    it('collapses whitespace and returns no lines for blank text', () => {
+        expect(wrapText('  one \n two  ', 42)).toEqual(['one two']);
+        expect(wrapText('   ', 42)).toEqual([]);
+    });
+});
+
+describe('buildCues', () => {
+    it('keeps a short segment as one cue', () => {
+        expect(buildCues([{ start: 1, end: 3, text: 'Hello there.', speaker: 'Speaker 1' }], options())).toEqual([
+            { start: 1, end: 3, lines: ['Hello there.'], speaker: 'Speaker 1' },
+        ]);
+    });
+
+    it('splits a segment that needs more than maxLinesPerCue lines', () => {
+        const cues = buildCues([{ start: 0, end: 6, text: 'one two three four five six' }], options({ maxLineLength: 9, maxLinesPerCue: 1 }));
+        expect(cues.map(cue => cue.lines)).toEqual([['one two'], ['three'], ['four five'], ['six']]);
+        expect(cues.every(cue => cue.lines.length <= 1)).toBe(true);
+        expect(cues[0].start).toBe(0);
+        expect(cues[cues.length - 1].end).toBe(6);
+    });
+
+    it('splits a segment longer than maxCueDuration and shares out the time', () => {
+        const cues = buildCues([{ start: 0, end: 20, text: 'aaaa bbbb cccc dddd' }], options({ maxCueDuration: 7 }));
+        expect(cues.length).toBeGreaterThan(1);
+        expect(cues.every(cue => cue.end - cue.start <= 7)).toBe(true);
+        for (let i = 1; i < cues.length; i++) expect(cues[i].start).toBeCloseTo(cues[i - 1].end);
+    });
+
+    it('caps how long a single word stays on screen', () => {
+        expect(buildCues([{ start: 10, end: 30, text: 'Hmm.' }], options({ maxCueDuration: 7 }))).toEqual([
+            { start: 10, end: 17, lines: ['Hmm.'] },
+        ]);
+    });
+
+    it('keeps zero-length segments and never ends a cue before it starts', () => {
+        expect(buildCues([{ start: 5, end: 5, text: 'Untimed' }, { start: 8, end: 6, text: 'Backwards' }], options())).toEqual([
+            { start: 5, end: 5, lines: ['Untimed'] },
+            { start: 8, end: 8, lines: ['Backwards'] },
+        ]);
+    });
+
+    it('skips segments without words', () => {
+        expect(buildCues([{ start: 0, end: 1, text: '  ' }], options())).toEqual([]);
+    });
+});
+
+describe('toSrt', () => {
+    it('numbers cues and uses a comma before the milliseconds', () => {
+        expect(toSrt([{ start: 0, end: 1.5, text: 'First.' }, { start: 3661.042, end: 3662, text: 'Second.' }])).toBe(
+            '1\n00:00:00,000 --> 00:00:01,500\nFirst.\n'
+            + '\n2\n01:01:01,042 --> 01:01:02,000\nSecond.\n',
+        );
+    });
+
+    it('prefixes the speaker name to the text', () => {
+        expect(toSrt([{ start: 0, end: 2, text: 'Hi.', speaker: 'Speaker 1' }], { 'Speaker 1': 'Ana' })).toBe(
+            '1\n00:00:00,000 --> 00:00:02,000\nAna: Hi.\n',
+        );
+    });
+
+    it('falls back to the speaker id when no name is set', () => {
+        expect(toSrt([{ start: 0, end: 2, text: 'Hi.', speaker: 'Speaker 2' }])).toContain('Speaker 2: Hi.');
+    });
+});
+
+describe('toWebVtt', () => {
+    it('starts with the header and uses a dot before the milliseconds', () => {
+        expect(toWebVtt([{ start: 0.25, end: 2, text: 'Hello.' }])).toBe('WEBVTT\n\n00:00:00.250 --> 00:00:02.000\nHello.\n');
+    });
+
+    it('marks speakers with a voice tag and escapes markup in names and text', () => {
+        const vtt = toWebVtt([{ start: 0, end: 2, text: 'a < b & c > d', speaker: 'Speaker 1' }], { 'Speaker 1': 'Tom <Lead>' });
+        expect(vtt).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:02.000\n<v Tom &lt;Lead&gt;>a &lt; b &amp; c &gt; d\n');
+    });
+
+    it('returns only the header for an empty transcript', () => {
+        expect(toWebVtt([])).toBe('WEBVTT\n');
+    });
+});
+
+describe('toTimedJson', () => {
+    it('writes version 1 with speaker names resolved', () => {
+        const json = JSON.parse(toTimedJson(
+            [{ start: 0, end: 1, text: 'Hi.', speaker: 'Speaker 1', language: 'English' }, { start: 1, end: 2, text: 'Bye.' }],
+            { 'Speaker 1': 'Ana' },
+        ));
+        expect(json).toEqual({
+            version: 1,
+            speakers: { 'Speaker 1': 'Ana' },
+            segments: [
+                { start: 0, end: 1, text: 'Hi.', speaker: 'Speaker 1', speakerName: 'Ana' },
+                { start: 1, end: 2, text: 'Bye.' },
+            ],
+        });
+    });
+});
@@ -0,0 +1,120 @@
+import type { TranscriptSegment } from "./transcriptionProvider";
+import { speakerName, SpeakerMap } from "./transcript";
+
+export interface CaptionOptions {
+    maxLineLength: number;
+    maxLinesPerCue: number;
+    // Longest time, in seconds, a single cue may stay on screen.
+    maxCueDuration: number;
+}
+
+export interface Cue {
+    start: number;
+    end: number;
+    lines: string[];
+    speaker?: string;
+}
+
+// Common broadcast guidelines: two lines of at most 42 characters, shown for no more than 7 seconds.
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+    maxLineLength: 42,
+    maxLinesPerCue: 2,
+    maxCueDuration: 7,
+};
+
+// Greedy word wrap. Words longer than the limit get a line of their own rather than being split.
+export const wrapText = (text: string, maxLineLength: number): string[] => {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (current && current.length + 1 + word.length > maxLineLength) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    if (current) lines.push(current);
+    return lines;
+};
+
+// Lays out one run of words as cues, halving it until every cue fits the line
+// and duration limits. Time is shared out in proportion to the characters in each half.
+const layoutCues = (words: string[], start: number, end: number, options: CaptionOptions, speaker?: string): Cue[] => {
+    const lines = wrapText(words.join(' '), options.maxLineLength);
+    const fitsLines = lines.length <= options.maxLinesPerCue;
+    const fitsDuration = end - start <= options.maxCueDuration;
+    if ((fitsLines && fitsDuration) || words.length < 2) {
+        // A single word can't be split further, so cap how long it stays on screen instead.
+        return [{ start, end: Math.min(end, start + options.maxCueDuration), lines, ...(speaker && { speaker }) }];
+    }
+
+    const splitAt = fitsLines
+        ? Math.ceil(words.length / 2)
+        : lines.slice(0, options.maxLinesPerCue).join(' ').split(' ').length;
+    const head = words.slice(0, splitAt);
+    const tail = words.slice(splitAt);
+    const middle = start + (end - start) * (head.join(' ').length / words.join(' ').length);
+    return [
+        ...layoutCues(head, start, middle, options, speaker),
+        ...layoutCues(tail, middle, end, options, speaker),
+    ];
+};
+
+export const buildCues = (segments: TranscriptSegment[], options: CaptionOptions = DEFAULT_CAPTION_OPTIONS): Cue[] =>
+    segments.flatMap(segment => {
+        const words = segment.text.split(/\s+/).filter(Boolean);
+        if (words.length === 0) return [];
+        return layoutCues(words, segment.start, Math.max(segment.start, segment.end), options, segment.speaker);
+    });
+
+const formatCueTime = (totalSeconds: number, fractionSeparator: ',' | '.'): string => {
+    const totalMs = Math.max(0, Math.round(totalSeconds * 1000));
+    const hours = Math.floor(totalMs / 3_600_000);
+    const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+    const seconds = Math.floor((totalMs % 60_000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fractionSeparator}${pad(ms, 3)}`;
+};
+
+// SRT has no speaker markup, so the name is prefixed to the text before wrapping
+// to keep it within the line-length limit.
+export const toSrt = (segments: TranscriptSegment[], speakers: SpeakerMap = {}, options: CaptionOptions = DEFAULT_CAPTION_OPTIONS): string =>
+    buildCues(
+        segments.map(({ speaker, ...segment }) => (speaker ? { ...segment, text: `${speakerName(speakers, speaker)}: ${segment.text}` } : segment)),
+        options,
+    )
+        .map((cue, index) => `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+        .join('\n');
+
+const escapeVtt = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toWebVtt = (segments: TranscriptSegment[], speakers: SpeakerMap = {}, options: CaptionOptions = DEFAULT_CAPTION_OPTIONS): string => {
+    const cues = buildCues(segments, options).map(cue => {
+        const body = cue.lines.map(escapeVtt).join('\n');
+        const text = cue.speaker ? `<v ${escapeVtt(speakerName(speakers, cue.speaker))}>${body}` : body;
+        return `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${text}\n`;
+    });
+    return ['WEBVTT\n', ...cues].join('\n');
+};
+
+export interface TimedJsonTranscript {
+    version: 1;
+    speakers: SpeakerMap;
+    segments: (TranscriptSegment & { speakerName?: string })[];
+}
+
+export const toTimedJson = (segments: TranscriptSegment[], speakers: SpeakerMap = {}): string => {
+    const transcript: TimedJsonTranscript = {
+        version: 1,
+        speakers,
+        segments: segments.map(segment => ({
+            start: segment.start,
+            end: segment.end,
+            text: segment.text,
+            ...(segment.speaker && { speaker: segment.speaker, speakerName: speakerName(speakers, segment.speaker) }),
+        })),
+    };
+    return JSON.stringify(transcript, null, 2);
+};
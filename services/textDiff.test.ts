@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { countChangedWords, DiffPart, diffWords } from "./textDiff";
+
+// Joining the parts each side kept gives back that side's text.
+const sides = (parts: DiffPart[]) => ({
+    before: parts.filter(part => part.kind !== 'added').map(part => part.text).join(''),
+    after: parts.filter(part => part.kind !== 'removed').map(part => part.text).join(''),
+});
+
+const words = (prefix: string, count: number): string => Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+
+describe('diffWords', () => {
+    it('returns a single equal part for identical text', () => {
+        expect(diffWords('The same words.', 'The same words.')).toEqual([{ kind: 'equal', text: 'The same words.' }]);
+        expect(diffWords('', '')).toEqual([]);
+    });
+
+    it('finds a pure insertion', () => {
+        expect(diffWords('We ship today.', 'We ship it today.')).toEqual([
+            { kind: 'equal', text: 'We ship ' },
+            { kind: 'added', text: 'it ' },
+            { kind: 'equal', text: 'today.' },
+        ]);
+    });
+
+    it('finds a pure deletion', () => {
+        expect(diffWords('We really ship today.', 'We ship today.')).toEqual([
+            { kind: 'equal', text: 'We ' },
+            { kind: 'removed', text: 'really ' },
+            { kind: 'equal', text: 'ship today.' },
+        ]);
+    });
+
+    it('diffs from and to empty text', () => {
+        expect(diffWords('', 'New text')).toEqual([{ kind: 'added', text: 'New text' }]);
+        expect(diffWords('Old text', '')).toEqual([{ kind: 'removed', text: 'Old text' }]);
+    });
+
+    it('shows a replaced word as removed then added', () => {
+        expect(diffWords('Meet on Friday at noon.', 'Meet on Monday at noon.')).toEqual([
+            { kind: 'equal', text: 'Meet on ' },
+            { kind: 'removed', text: 'Friday' },
+            { kind: 'added', text: 'Monday' },
+            { kind: 'equal', text: ' at noon.' },
+        ]);
+    });
+
+    it('keeps the original whitespace, including line breaks', () => {
+        const before = 'First line.\n\nSecond  line  here.';
+        const after = 'First line.\nSecond line here.';
+        const parts = diffWords(before, after);
+        expect(sides(parts)).toEqual({ before, after });
+        expect(countChangedWords(parts)).toEqual({ added: 0, removed: 0 });
+    });
+
+    it('changes words separately when they are far apart', () => {
+        const parts = diffWords('a b c d e f g', 'x b c d e f y');
+        expect(parts.map(part => part.kind)).toEqual(['removed', 'added', 'equal', 'removed', 'added']);
+        expect(sides(parts)).toEqual({ before: 'a b c d e f g', after: 'x b c d e f y' });
+    });
+
+    it('still diffs word by word at the edit limit', () => {
+        const before = words('a', 1000);
+        const after = words('b', 1000);
+        const parts = diffWords(before, after);
+        expect(parts.length).toBeGreaterThan(2);
+        expect(sides(parts)).toEqual({ before, after });
+    });
+
+    it('shows the text as fully replaced beyond the edit limit', () => {
+        const before = words('a', 1001);
+        const after = words('b', 1001);
+        expect(diffWords(before, after)).toEqual([
+            { kind: 'removed', text: before },
+            { kind: 'added', text: after },
+        ]);
+    });
+
+    it('keeps the shared start and end outside the fallback', () => {
+        const before = `Intro. ${words('a', 1001)} Outro.`;
+        const after = `Intro. ${words('b', 1001)} Outro.`;
+        expect(diffWords(before, after)).toEqual([
+            { kind: 'equal', text: 'Intro. ' },
+            { kind: 'removed', text: words('a', 1001) },
+            { kind: 'added', text: words('b', 1001) },
+            { kind: 'equal', text: ' Outro.' },
+        ]);
+    });
+});
+
+describe('countChangedWords', () => {
+    it('counts words, not whitespace, in added and removed parts', () => {
+        expect(countChangedWords(diffWords('Meet on Friday at noon.', 'Meet on Monday morning at noon.'))).toEqual({ added: 2, removed: 1 });
+        expect(countChangedWords([{ kind: 'added', text: '  \n ' }])).toEqual({ added: 0, removed: 0 });
+    });
+});
@@ -0,0 +1,98 @@
+export type DiffKind = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+    kind: DiffKind;
+    text: string;
+}
+
+// Beyond this many changed words the texts are shown as fully replaced. The
+// search's memory grows with the square of the number of changes.
+const MAX_EDIT_DISTANCE = 2000;
+
+// Words and the whitespace between them, so joining the tokens gives back the text.
+const tokenize = (text: string): string[] => text.match(/\s+|\S+/g) ?? [];
+
+const backtrack = (trace: Int32Array[], a: string[], b: string[]): DiffPart[] => {
+    const parts: DiffPart[] = [];
+    let x = a.length;
+    let y = b.length;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const v = trace[d];
+        const at = (k: number) => v[k + d + 1];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            parts.push({ kind: 'equal', text: a[--x] });
+            y--;
+        }
+        if (d === 0) break;
+        if (x === prevX) parts.push({ kind: 'added', text: b[--y] });
+        else parts.push({ kind: 'removed', text: a[--x] });
+    }
+    return parts.reverse();
+};
+
+// Myers' shortest edit script. Returns null when the texts differ by more than MAX_EDIT_DISTANCE tokens.
+const shortestEdit = (a: string[], b: string[]): DiffPart[] | null => {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // Only the diagonals reachable at each step are kept, so the trace stays proportional to the edit distance.
+    const trace: Int32Array[] = [];
+    for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) return backtrack(trace, a, b);
+        }
+    }
+    return null;
+};
+
+const mergeParts = (parts: DiffPart[]): DiffPart[] => parts.reduce<DiffPart[]>((merged, part) => {
+    if (!part.text) return merged;
+    const last = merged[merged.length - 1];
+    if (last && last.kind === part.kind) last.text += part.text;
+    else merged.push({ ...part });
+    return merged;
+}, []);
+
+// Word-level diff from `before` to `after`.
+export const diffWords = (before: string, after: string): DiffPart[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    // Edits are usually local, so strip the shared start and end before searching.
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    const middle = shortestEdit(middleA, middleB) ?? [
+        { kind: 'removed' as const, text: middleA.join('') },
+        { kind: 'added' as const, text: middleB.join('') },
+    ];
+    return mergeParts([
+        { kind: 'equal', text: a.slice(0, prefix).join('') },
+        ...middle,
+        { kind: 'equal', text: a.slice(a.length - suffix).join('') },
+    ]);
+};
+
+export const countChangedWords = (parts: DiffPart[]): { added: number; removed: number } => {
+    const count = (kind: DiffKind) => parts
+        .filter(part => part.kind === kind)
+        .reduce((total, part) => total + (part.text.match(/\S+/g)?.length ?? 0), 0);
+    return { added: count('added'), removed: count('removed') };
+};
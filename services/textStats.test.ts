@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { computeTextStats } from "./textStats";
+
+describe('computeTextStats', () => {
+    it('counts words, characters and lines', () => {
+        const stats = computeTextStats("It's done.\n\nWe shipped 2 builds today");
+        expect(stats.wordCount).toBe(7);
+        expect(stats.characterCount).toBe(37);
+        expect(stats.paragraphCount).toBe(2);
+    });
+
+    it('counts sentences ending in any punctuation or a line break', () => {
+        expect(computeTextStats('One. Two! Three? Four… Five\nSix').sentenceCount).toBe(6);
+    });
+
+    it('does not count stray punctuation as sentences', () => {
+        expect(computeTextStats('Wait... what?! Really.').sentenceCount).toBe(3);
+        expect(computeTextStats('').sentenceCount).toBe(0);
+    });
+
+    it('counts single and multi-word fillers as whole words', () => {
+        const stats = computeTextStats('Um, I mean, it was like, you know, umbrella weather. Uh, I like it, you know?');
+        expect(stats.fillers).toEqual({ um: 1, uh: 1, like: 2, 'you know': 2, 'i mean': 1 });
+        expect(stats.fillerCount).toBe(7);
+    });
+
+    it('reports no fillers for clean text', () => {
+        const stats = computeTextStats('Plain and simple.');
+        expect(stats.fillers).toEqual({});
+        expect(stats.fillerCount).toBe(0);
+    });
+
+    it('works out speaking pace only when the duration is known', () => {
+        const text = 'word '.repeat(150);
+        expect(computeTextStats(text, 60).wordsPerMinute).toBe(150);
+        expect(computeTextStats(text).wordsPerMinute).toBeNull();
+        expect(computeTextStats(text, 0).wordsPerMinute).toBeNull();
+    });
+
+    it('estimates reading time from the word count', () => {
+        expect(computeTextStats('word '.repeat(238)).readingTimeSeconds).toBe(60);
+    });
+
+    it('measures vocabulary diversity over a moving window', () => {
+        expect(computeTextStats('a b c d').vocabularyDiversity).toBe(1);
+        expect(computeTextStats('a a a a').vocabularyDiversity).toBe(0.25);
+        // Long texts are compared window by window, so repeating a varied
+        // passage keeps its score instead of dropping with length.
+        const varied = Array.from({ length: 50 }, (_, i) => `w${i}`).join(' ');
+        expect(computeTextStats(`${varied} ${varied} ${varied}`).vocabularyDiversity).toBe(1);
+        expect(computeTextStats('').vocabularyDiversity).toBe(0);
+    });
+});
@@ -0,0 +1,74 @@
+// Counts that can be worked out exactly from the text, so they don't need a
+// model call and stay the same between runs.
+export interface TextStats {
+    wordCount: number;
+    characterCount: number;
+    sentenceCount: number;
+    paragraphCount: number;
+    readingTimeSeconds: number;
+    // Null when the recording length is unknown.
+    wordsPerMinute: number | null;
+    fillerCount: number;
+    fillers: Record<string, number>;
+    // Moving-average type-token ratio between 0 and 1; higher means fewer repeated words.
+    vocabularyDiversity: number;
+}
+
+// Average adult silent reading speed.
+const READING_WORDS_PER_MINUTE = 238;
+// Window for the moving-average type-token ratio. A plain ratio falls as texts get
+// longer, which would make long and short transcripts impossible to compare.
+const DIVERSITY_WINDOW = 50;
+
+export const FILLER_PHRASES = ['um', 'uh', 'erm', 'hmm', 'like', 'you know', 'i mean'];
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu) ?? [];
+
+const countFillers = (words: string[]): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    for (const phrase of FILLER_PHRASES) {
+        const parts = phrase.split(' ');
+        let count = 0;
+        for (let i = 0; i + parts.length <= words.length; i++) {
+            if (parts.every((part, j) => words[i + j] === part)) count++;
+        }
+        if (count > 0) counts[phrase] = count;
+    }
+    return counts;
+};
+
+const vocabularyDiversity = (words: string[]): number => {
+    if (words.length === 0) return 0;
+    if (words.length <= DIVERSITY_WINDOW) return new Set(words).size / words.length;
+    let total = 0;
+    const windowCounts = new Map<string, number>();
+    words.slice(0, DIVERSITY_WINDOW).forEach(word => windowCounts.set(word, (windowCounts.get(word) ?? 0) + 1));
+    total += windowCounts.size;
+    for (let i = DIVERSITY_WINDOW; i < words.length; i++) {
+        const dropped = words[i - DIVERSITY_WINDOW];
+        const remaining = windowCounts.get(dropped)! - 1;
+        if (remaining === 0) windowCounts.delete(dropped);
+        else windowCounts.set(dropped, remaining);
+        windowCounts.set(words[i], (windowCounts.get(words[i]) ?? 0) + 1);
+        total += windowCounts.size;
+    }
+    return total / ((words.length - DIVERSITY_WINDOW + 1) * DIVERSITY_WINDOW);
+};
+
+// `durationSeconds` is the length of the recording the text came from.
+export const computeTextStats = (text: string, durationSeconds?: number): TextStats => {
+    const words = tokenize(text);
+    const fillers = countFillers(words);
+    return {
+        wordCount: words.length,
+        characterCount: text.length,
+        sentenceCount: (text.match(/[^.!?…\n]*[\p{L}\p{N}][^.!?…\n]*/gu) ?? []).length,
+        // Each transcript segment is its own line, so lines are counted as paragraphs.
+        paragraphCount: text.split(/\n+/).filter(line => line.trim()).length,
+        readingTimeSeconds: Math.round(words.length / READING_WORDS_PER_MINUTE * 60),
+        wordsPerMinute: durationSeconds && durationSeconds > 0 ? Math.round(words.length / (durationSeconds / 60)) : null,
+        fillerCount: Object.values(fillers).reduce((sum, n) => sum + n, 0),
+        fillers,
+        vocabularyDiversity: vocabularyDiversity(words),
+    };
+};
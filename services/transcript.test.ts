@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { normalizeSegments } from "./transcript";
+
+describe('normalizeSegments', () => {
+    it('trims text and sorts by start time', () => {
+        expect(normalizeSegments([
+            { start: 3, end: 4, text: ' Later. ', speaker: ' Speaker 2 ' },
+            { start: 0, end: 2, text: 'First.' },
+        ])).toEqual([
+            { start: 0, end: 2, text: 'First.' },
+            { start: 3, end: 4, text: 'Later.', speaker: 'Speaker 2' },
+        ]);
+    });
+
+    it('drops segments whose text is not a string instead of throwing', () => {
+        expect(normalizeSegments([
+            { start: 0, end: 1, text: 42 },
+            { start: 1, end: 2, text: { value: 'x' } },
+            { start: 2, end: 3 },
+            null,
+            { start: 3, end: 4, text: '   ' },
+            { start: 4, end: 5, text: 'Kept.' },
+        ])).toEqual([{ start: 4, end: 5, text: 'Kept.' }]);
+    });
+
+    it('drops segments without finite timestamps', () => {
+        expect(normalizeSegments([
+            { start: '1', end: 2, text: 'String start.' },
+            { start: 0, end: NaN, text: 'No end.' },
+            { start: 0, end: 1, text: 'Kept.' },
+        ])).toEqual([{ start: 0, end: 1, text: 'Kept.' }]);
+    });
+
+    it('ignores speakers and languages that are not strings', () => {
+        expect(normalizeSegments([{ start: 0, end: 1, text: 'Hi.', speaker: 7, language: ['en'] }])).toEqual([{ start: 0, end: 1, text: 'Hi.' }]);
+    });
+
+    it('returns nothing for a response that is not a list', () => {
+        expect(normalizeSegments('segments')).toEqual([]);
+    });
+});
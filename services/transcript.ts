@@ -0,0 +1,137 @@
+import type { ConfidenceSpan, TranscriptSegment } from "./transcriptionProvider";
+
+export type SpeakerMap = Record<string, string>;
+
+export const speakerName = (speakers: SpeakerMap, id: string): string => speakers[id]?.trim() || id;
+
+export const transcriptToText = (segments: TranscriptSegment[], speakers?: SpeakerMap): string =>
+    segments
+        .map(segment => (speakers && segment.speaker ? `${speakerName(speakers, segment.speaker)}: ${segment.text}` : segment.text))
+        .join('\n');
+
+// Adds an entry for every speaker id that appears in the transcript, keeping
+// names the user has already assigned.
+export const collectSpeakers = (segments: TranscriptSegment[], existing: SpeakerMap = {}): SpeakerMap => {
+    const speakers: SpeakerMap = {};
+    for (const segment of segments) {
+        if (segment.speaker && !(segment.speaker in speakers)) {
+            speakers[segment.speaker] = existing[segment.speaker] ?? segment.speaker;
+        }
+    }
+    return speakers;
+};
+
+// Sessions saved before timestamps existed only have plain text; treat each
+// line as an untimed segment so they still render in the segment list.
+export const textToSegments = (text: string): TranscriptSegment[] =>
+    text.split('\n').filter(line => line.trim()).map(line => ({ start: 0, end: 0, text: line }));
+
+export const isTimed = (segments: TranscriptSegment[]): boolean =>
+    segments.some(segment => segment.end > 0);
+
+// Drops entries the provider returned without usable text or confidence.
+const normalizeSpans = (spans: unknown): ConfidenceSpan[] => (Array.isArray(spans) ? spans : [])
+    .filter((span): span is ConfidenceSpan => typeof span?.text === 'string' && !!span.text.trim() && Number.isFinite(span.confidence))
+    .map(span => ({ text: span.text.trim(), confidence: Math.min(1, Math.max(0, span.confidence)) }));
+
+// Drops segments without text or timestamps, so a malformed response can't
+// crash the code that reads them.
+export const normalizeSegments = (segments: unknown): TranscriptSegment[] => (Array.isArray(segments) ? segments : [])
+    .filter((segment): segment is TranscriptSegment => typeof segment?.text === 'string' && !!segment.text.trim()
+        && Number.isFinite(segment.start) && Number.isFinite(segment.end))
+    .map(segment => {
+        const uncertain = normalizeSpans(segment.uncertain);
+        return {
+            start: Math.max(0, segment.start),
+            end: Math.max(0, segment.start, segment.end),
+            text: segment.text.trim(),
+            ...(typeof segment.speaker === 'string' && segment.speaker.trim() && { speaker: segment.speaker.trim() }),
+            ...(typeof segment.language === 'string' && segment.language.trim() && { language: segment.language.trim() }),
+            ...(Number.isFinite(segment.languageConfidence) && { languageConfidence: Math.min(1, Math.max(0, Number(segment.languageConfidence))) }),
+            ...(uncertain.length > 0 && { uncertain }),
+        };
+    })
+    .sort((a, b) => a.start - b.start);
+
+export interface LanguageDetection {
+    language: string;
+    confidence: number;
+    // Share of the speech in each detected language, largest first. More than
+    // one entry means the recording mixes languages.
+    languages: { language: string; share: number }[];
+}
+
+// Combines per-segment detections into one result for the recording, weighting
+// each segment by its length (or its text length when untimed).
+export const summarizeLanguages = (segments: TranscriptSegment[]): LanguageDetection | null => {
+    const totals = new Map<string, { weight: number; confidence: number }>();
+    let totalWeight = 0;
+    for (const segment of segments) {
+        if (!segment.language) continue;
+        const weight = segment.end > segment.start ? segment.end - segment.start : segment.text.length;
+        const entry = totals.get(segment.language) ?? { weight: 0, confidence: 0 };
+        entry.weight += weight;
+        entry.confidence += weight * (segment.languageConfidence ?? 1);
+        totals.set(segment.language, entry);
+        totalWeight += weight;
+    }
+    if (totalWeight === 0) return null;
+
+    const languages = [...totals.entries()]
+        .map(([language, { weight }]) => ({ language, share: weight / totalWeight }))
+        .sort((a, b) => b.share - a.share);
+    const main = totals.get(languages[0].language)!;
+    return { language: languages[0].language, confidence: main.confidence / main.weight, languages };
+};
+
+const midpoint = (segment: TranscriptSegment): number => (segment.start + segment.end) / 2;
+
+// Indices of the segments whose midpoint lies between `start` and `end` seconds.
+export const segmentIndicesInRange = (segments: TranscriptSegment[], start: number, end: number): number[] =>
+    segments.flatMap((segment, index) => (midpoint(segment) >= start && midpoint(segment) < end ? [index] : []));
+
+// Swaps the segments between `start` and `end` for a fresh transcription of that stretch.
+export const replaceSegmentsInRange = (segments: TranscriptSegment[], start: number, end: number, replacement: TranscriptSegment[]): TranscriptSegment[] => {
+    const replaced = new Set(segmentIndicesInRange(segments, start, end));
+    return [...segments.filter((_, index) => !replaced.has(index)), ...replacement].sort((a, b) => a.start - b.start);
+};
+
+export const findSegmentIndexAt = (segments: TranscriptSegment[], time: number): number =>
+    segments.findIndex(segment => time >= segment.start && time < segment.end);
+
+export interface UncertainWord {
+    segmentIndex: number;
+    // Position in the segment's `uncertain` list.
+    spanIndex: number;
+    // Character offsets into the segment text.
+    start: number;
+    end: number;
+    confidence: number;
+}
+
+// Locates the flagged words below `threshold` in their segments, in reading
+// order. Each span is searched for after the previous one, so a repeated word
+// maps to the right occurrence; spans no longer in the text (after an edit) are skipped.
+export const findUncertainWords = (segments: TranscriptSegment[], threshold: number): UncertainWord[] =>
+    segments.flatMap((segment, segmentIndex) => {
+        const text = segment.text.toLowerCase();
+        let from = 0;
+        return (segment.uncertain ?? []).flatMap((span, spanIndex) => {
+            const start = text.indexOf(span.text.toLowerCase(), from);
+            if (start === -1) return [];
+            from = start + span.text.length;
+            return span.confidence < threshold ? [{ segmentIndex, spanIndex, start, end: from, confidence: span.confidence }] : [];
+        });
+    });
+
+// Estimates when a character of the segment is spoken, assuming an even pace.
+export const timeAtOffset = (segment: TranscriptSegment, offset: number): number =>
+    segment.start + (segment.end - segment.start) * (segment.text.length > 0 ? offset / segment.text.length : 0);
+
+export const formatTimestamp = (totalSeconds: number): string => {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = Math.floor(totalSeconds % 60);
+    const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
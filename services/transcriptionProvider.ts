@@ -0,0 +1,125 @@
+import { geminiProvider } from "./geminiService";
+import { mockProvider, createLocalHttpProvider } from "./mockProvider";
+import type { GlossaryTerm } from "./glossary";
+
+// Counts that need a language model. Word, character and other plain counts
+// are computed locally, see textStats.ts.
+export interface WordMetrics {
+    verbCount: number;
+    nounCount: number;
+    adjectiveCount: number;
+    conjunctionCount: number;
+    profanityCount: number;
+}
+
+export interface ActionItem {
+    task: string;
+    owner?: string;
+    // As spoken, e.g. "next Friday"; the model isn't asked to resolve it to a calendar date.
+    dueDate?: string;
+}
+
+export interface TranscriptInsights {
+    summary: string;
+    keyPoints: string[];
+    actionItems: ActionItem[];
+    decisions: string[];
+}
+
+// Kinds of personal data that can be redacted from a transcript.
+export type EntityCategory = 'name' | 'address' | 'email' | 'phone' | 'card' | 'id';
+
+// Personal data found by a model, quoted exactly as it appears in the transcript.
+export interface DetectedEntity {
+    text: string;
+    category: EntityCategory;
+}
+
+// A word or phrase the provider was unsure about, as it appears in the segment text.
+export interface ConfidenceSpan {
+    text: string;
+    // From 0 to 1.
+    confidence: number;
+}
+
+export interface TranscriptSegment {
+    // Offsets in seconds from the beginning of the recording.
+    start: number;
+    end: number;
+    text: string;
+    // Speaker id as returned by the provider, e.g. "Speaker 1". Display names
+    // live in the session's speaker map so renames apply everywhere at once.
+    speaker?: string;
+    // Spoken language of the segment as an English name, e.g. "Spanish", and
+    // the provider's confidence in it from 0 to 1. Set when the language was auto-detected.
+    language?: string;
+    languageConfidence?: number;
+    // Words the provider may have misheard, in the order they occur. Words
+    // missing from the list were transcribed with high confidence.
+    uncertain?: ConfidenceSpan[];
+}
+
+export interface TranscribeOptions {
+    // The spoken language when known; leave unset to have the provider detect it.
+    language?: string;
+    diarize: boolean;
+    // Names and terms from the active glossary that the transcript should spell this way.
+    vocabulary?: GlossaryTerm[];
+}
+
+export interface ProviderCapabilities {
+    // Can translate a finished transcript into another language.
+    translation: boolean;
+    // Can produce the part-of-speech and profanity breakdown.
+    metrics: boolean;
+    // Works without an API key or internet access.
+    offline: boolean;
+    // Can label each segment with the person speaking.
+    diarization: boolean;
+    // Can summarise the transcript into key points, action items and decisions.
+    insights: boolean;
+    // Can find names, addresses and other personal data for redaction.
+    entities: boolean;
+}
+
+export interface TranscriptionProvider {
+    id: ProviderId;
+    name: string;
+    capabilities: ProviderCapabilities;
+    transcribe: (base64Audio: string, mimeType: string, options: TranscribeOptions) => Promise<TranscriptSegment[]>;
+    analyzeMetrics: (text: string) => Promise<WordMetrics>;
+    generateInsights: (text: string) => Promise<TranscriptInsights>;
+    // Returns one translated text per input text, in the same order.
+    translate: (texts: string[], targetLanguage: string) => Promise<string[]>;
+    detectEntities: (text: string) => Promise<DetectedEntity[]>;
+}
+
+export type ProviderId = 'gemini' | 'mock' | 'local-http';
+
+export interface ProviderSettings {
+    providerId: ProviderId;
+    localEndpoint: string;
+}
+
+export const PROVIDER_OPTIONS: { id: ProviderId; name: string; description: string }[] = [
+    { id: 'gemini', name: 'Gemini', description: "Google's gemini-2.5-flash model. Requires GEMINI_API_KEY." },
+    { id: 'mock', name: 'Mock (offline)', description: "Returns canned transcripts chosen deterministically from the audio. No network access." },
+    { id: 'local-http', name: 'Local HTTP', description: "Posts audio to a local stand-in server that mimics the transcription API." },
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    providerId: process.env.API_KEY ? 'gemini' : 'mock',
+    localEndpoint: 'http://localhost:8787',
+};
+
+export const createProvider = (settings: ProviderSettings): TranscriptionProvider => {
+    switch (settings.providerId) {
+        case 'mock':
+            return mockProvider;
+        case 'local-http':
+            return createLocalHttpProvider(settings.localEndpoint);
+        case 'gemini':
+        default:
+            return geminiProvider;
+    }
+};
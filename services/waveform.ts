@@ -0,0 +1,32 @@
+import { decodeAudio } from "./audioFile";
+
+export interface AudioRegion {
+    // Seconds from the beginning of the recording.
+    start: number;
+    end: number;
+}
+
+export interface Waveform {
+    // Peak amplitude (0 to 1) of each equally long slice of the recording.
+    peaks: number[];
+    duration: number;
+}
+
+// A waveform only needs the envelope, so decode at a low rate to save memory.
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+export const computeWaveform = async (blob: Blob, bucketCount: number): Promise<Waveform> => {
+    const decoded = await decodeAudio(blob, WAVEFORM_SAMPLE_RATE);
+    const channels = Array.from({ length: decoded.numberOfChannels }, (_, channel) => decoded.getChannelData(channel));
+    const bucketSize = Math.max(1, Math.floor(decoded.length / bucketCount));
+    const peaks: number[] = [];
+    for (let start = 0; start < decoded.length && peaks.length < bucketCount; start += bucketSize) {
+        let peak = 0;
+        const end = Math.min(decoded.length, start + bucketSize);
+        for (const data of channels) {
+            for (let i = start; i < end; i++) peak = Math.max(peak, Math.abs(data[i]));
+        }
+        peaks.push(Math.min(1, peak));
+    }
+    return { peaks, duration: decoded.duration };
+};
@@ -0,0 +1,57 @@
+import type { ProviderId, TranscriptInsights, TranscriptSegment, WordMetrics } from './services/transcriptionProvider';
+import type { LanguageDetection, SpeakerMap } from './services/transcript';
+
+// A translated copy of a transcript. Segments line up one-to-one with the
+// original's, sharing their timings and speakers.
+export interface Translation {
+    language: string;
+    segments: TranscriptSegment[];
+    date: string;
+}
+
+// 'transcription' is the model's output, 'edit' a manual save of the transcript.
+export type RevisionSource = 'transcription' | 'edit';
+
+// A snapshot of the transcript, kept so edits can be compared with what the model said.
+export interface Revision {
+    id: string;
+    date: string;
+    source: RevisionSource;
+    segments: TranscriptSegment[];
+    speakers: SpeakerMap;
+    // The provider that produced a 'transcription' revision.
+    provider?: ProviderId;
+    // Set when the revision was saved after restoring an older one.
+    restoredFrom?: string;
+}
+
+export interface Session {
+    id: string;
+    name: string;
+    text: string;
+    segments?: TranscriptSegment[];
+    speakers?: SpeakerMap;
+    metrics?: WordMetrics;
+    insights?: TranscriptInsights;
+    date: string;
+    // Folder or project the session is filed under; unset means unfiled.
+    folder?: string;
+    tags?: string[];
+    // Language of the transcript text; translations carry their own.
+    language?: string;
+    // Set when the language was auto-detected rather than chosen.
+    languageDetection?: LanguageDetection;
+    diarize?: boolean;
+    // Recording length in seconds.
+    duration?: number;
+    provider?: ProviderId;
+    // The recording itself lives in a separate IndexedDB store, keyed by session id.
+    hasAudio?: boolean;
+    translations?: Translation[];
+    // Oldest first.
+    revisions?: Revision[];
+    // Set on a copy with personal data masked, along with the id of the saved
+    // session it was made from when there was one.
+    redacted?: boolean;
+    redactedFrom?: string;
+}